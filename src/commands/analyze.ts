@@ -0,0 +1,68 @@
+import chalk from 'chalk';
+import { addApiDescription, createToolInfo, getToolName } from './integrate';
+import { analyzeToolUrl, ToolAnalysisResult } from '../utils/stagehand-integration';
+import { describeAuth } from '../utils/auth';
+
+/**
+ * Interface for analyze command options
+ */
+export interface AnalyzeOptions {
+  browser: boolean;
+  json: boolean;
+}
+
+/**
+ * Analyzes an external tool without writing any files
+ * @param url The URL of the external tool to analyze
+ * @param options Analyze options
+ * @returns A promise that resolves to the analysis result
+ */
+export async function analyzeExternalTool(url: string, options: AnalyzeOptions): Promise<ToolAnalysisResult> {
+  try {
+    let toolInfo: ToolAnalysisResult;
+    
+    if (options.browser) {
+      // Use Stagehand to inspect the page itself
+      toolInfo = await analyzeToolUrl(url);
+    } else {
+      toolInfo = createToolInfo(url);
+    }
+    
+    // The tool may describe its API with GraphQL introspection or an OpenAPI document
+    await addApiDescription(url, toolInfo);
+    
+    if (options.json) {
+      console.log(JSON.stringify(toolInfo, null, 2));
+      return toolInfo;
+    }
+    
+    const toolName = getToolName(url, toolInfo);
+    
+    console.log(chalk.blue('Tool information:'));
+    console.log(`  Name:        ${toolName}`);
+    console.log(`  URL:         ${toolInfo.url}`);
+    console.log(`  Description: ${String(toolInfo.toolInfo.description || '')}`);
+    
+    if (toolInfo.api) {
+      console.log(`  API:         ${toolInfo.api.title} (${toolInfo.api.format}), ${toolInfo.api.operations.length} operations at ${toolInfo.api.baseUrl}`);
+      console.log(`  Auth:        ${toolInfo.api.auth ? describeAuth(toolInfo.api.auth) : 'not declared, bearer token by default'}`);
+    }
+    
+    if (toolInfo.graphql) {
+      console.log(`  GraphQL:     ${toolInfo.graphql.baseUrl}${toolInfo.graphql.mutationType ? ', with mutations' : ''}`);
+    }
+    
+    if (toolInfo.dependencies && toolInfo.dependencies.length > 0) {
+      console.log(`  Dependencies: ${toolInfo.dependencies.join(', ')}`);
+    }
+    
+    if (toolInfo.codeExamples && toolInfo.codeExamples.length > 0) {
+      console.log(`  Code examples: ${toolInfo.codeExamples.length}`);
+    }
+    
+    return toolInfo;
+  } catch (error) {
+    console.error(chalk.red('Error analyzing external tool:'), error);
+    throw new Error(`Failed to analyze external tool: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -2,41 +2,97 @@ import * as fs from 'fs-extra';
 import * as path from 'node:path';
 import { execSync } from 'node:child_process';
 import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { NextRouter } from '../utils/project-layout';
+import { findPackageManager, PackageManager, PACKAGE_MANAGERS } from '../utils/nextjs-detector';
+import {
+  getAddCommand,
+  getExecCommand,
+  getInstallCommand,
+  getPackageManagerTarget,
+  runPackageManagerCommand,
+} from '../utils/package-manager';
+import { BootstrapPreset, DEFAULT_PRESET, getPreset, loadPresets, PresetFile } from '../utils/presets';
+import { getOfflineTemplateFiles } from '../utils/offline-template';
+
+/**
+ * Name of the directory an app is created in when the target directory is not empty
+ */
+const DEFAULT_APP_NAME = 'nextjs-app';
+
+/**
+ * Interface for the create-next-app choices of a bootstrap
+ */
+export interface CreateNextAppSettings {
+  typescript: boolean;
+  router: NextRouter;
+  srcDir: boolean;
+  tailwind: boolean;
+  eslint: boolean;
+  turbopack: boolean;
+  importAlias: string;
+  packageManager: PackageManager;
+  createNextAppVersion: string;
+}
+
+/**
+ * create-next-app choices used with --yes, without a terminal, or for anything not prompted
+ */
+export const DEFAULT_CREATE_NEXT_APP_SETTINGS: CreateNextAppSettings = {
+  typescript: true,
+  router: 'app',
+  srcDir: true,
+  tailwind: true,
+  eslint: true,
+  turbopack: false,
+  importAlias: '@/*',
+  packageManager: 'npm',
+  createNextAppVersion: 'latest',
+};
+
+/**
+ * Interface for bootstrap options
+ *
+ * Settings left undefined are prompted for, or take their default with --yes.
+ */
+export interface BootstrapOptions extends Partial<CreateNextAppSettings> {
+  appName?: string;
+  preset?: string;
+  offline?: boolean;
+  yes?: boolean;
+}
 
 /**
  * Bootstraps a new Next.js application
  * @param directory The directory to create the Next.js app in
- * @returns A promise that resolves when the app is created
+ * @param options Bootstrap options
+ * @returns A promise that resolves to the directory the app was created in
  */
-export async function bootstrapNextApp(directory: string): Promise<void> {
+export async function bootstrapNextApp(directory: string, options: BootstrapOptions = {}): Promise<string> {
   console.log(chalk.blue('Bootstrapping a new Next.js application...'));
   
   try {
-    // Check if the directory is empty
-    const files = await fs.readdir(directory);
-    const nonHiddenFiles = files.filter(file => !file.startsWith('.') && file !== 'node_modules');
+    const appDir = await getBootstrapDirectory(directory, options);
+    const settings = await selectCreateNextAppSettings(directory, options);
+    const preset = await selectPreset(directory, options);
     
-    if (nonHiddenFiles.length > 0) {
-      console.log(chalk.yellow('Directory is not empty. Creating a new directory for the Next.js app...'));
-      const appName = 'nextjs-app';
-      const appDir = path.join(directory, appName);
-      
-      // Create the app directory
-      await fs.ensureDir(appDir);
-      
-      // Create the Next.js app
-      console.log(chalk.blue(`Creating Next.js app in ${appDir}...`));
-      createNextApp(appDir);
-      
-      console.log(chalk.green(`✓ Next.js application created in ${appName} directory`));
-      return;
+    if (appDir !== path.resolve(directory)) {
+      console.log(chalk.yellow(`Directory is not empty. Creating the Next.js app in ${path.relative(directory, appDir)}...`));
     }
     
-    // Create the Next.js app in the current directory
-    console.log(chalk.blue(`Creating Next.js app in ${directory}...`));
-    createNextApp(directory);
+    // Create the app directory
+    await fs.ensureDir(appDir);
+    
+    // Create the Next.js app
+    console.log(chalk.blue(`Creating Next.js app in ${appDir}...`));
+    if (options.offline) {
+      await writeOfflineApp(appDir, settings, preset);
+    } else {
+      await createNextApp(appDir, settings, preset);
+    }
     
-    console.log(chalk.green('✓ Next.js application created'));
+    console.log(chalk.green(`✓ Next.js application created in ${appDir}`));
+    return appDir;
   } catch (error) {
     console.error(chalk.red('Error bootstrapping Next.js app:'), error);
     throw new Error(`Failed to bootstrap Next.js app: ${error instanceof Error ? error.message : String(error)}`);
@@ -44,10 +100,233 @@ export async function bootstrapNextApp(directory: string): Promise<void> {
 }
 
 /**
- * Creates a new Next.js app using create-next-app
+ * Gets the directory a new app is created in, without creating anything
+ *
+ * An empty directory is used as it is. Otherwise the app goes into a subdirectory named
+ * after --app-name; a default name that is taken by a non-empty folder is numbered rather
+ * than reused, and a taken --app-name is an error.
+ * @param directory The directory to create the Next.js app in
+ * @param options Bootstrap options
+ * @returns A promise that resolves to the absolute path of the app directory
+ */
+export async function getBootstrapDirectory(directory: string, options: BootstrapOptions = {}): Promise<string> {
+  const resolved = path.resolve(directory);
+  
+  if (await isEmptyDirectory(resolved)) {
+    return resolved;
+  }
+  
+  const appName = options.appName || DEFAULT_APP_NAME;
+  let appDir = path.join(resolved, appName);
+  
+  if (options.appName) {
+    if (!await isEmptyDirectory(appDir)) {
+      throw new Error(`${appDir} already exists and is not empty. Pass a different --app-name.`);
+    }
+    return appDir;
+  }
+  
+  for (let suffix = 2; !await isEmptyDirectory(appDir); suffix++) {
+    appDir = path.join(resolved, `${appName}-${suffix}`);
+  }
+  
+  return appDir;
+}
+
+/**
+ * Checks whether a directory is missing or holds nothing but hidden files and node_modules
+ * @param directory The directory to check
+ * @returns A promise that resolves to true if an app can be created in the directory
+ */
+async function isEmptyDirectory(directory: string): Promise<boolean> {
+  if (!await fs.pathExists(directory)) {
+    return true;
+  }
+  
+  const files = await fs.readdir(directory);
+  return files.every(file => file.startsWith('.') || file === 'node_modules');
+}
+
+/**
+ * Selects the create-next-app choices from the options, the prompt or the defaults
+ *
+ * Inside a project or workspace that already uses a package manager, that one is used
+ * unless --package-manager says otherwise, so the app does not get a second lockfile.
+ * @param directory The directory the app is created in
+ * @param options Bootstrap options
+ * @returns A promise that resolves to the complete settings
+ */
+export async function selectCreateNextAppSettings(directory: string, options: BootstrapOptions): Promise<CreateNextAppSettings> {
+  const given: Partial<CreateNextAppSettings> = {};
+  for (const key of Object.keys(DEFAULT_CREATE_NEXT_APP_SETTINGS) as (keyof CreateNextAppSettings)[]) {
+    if (options[key] !== undefined) {
+      (given as Record<string, unknown>)[key] = options[key];
+    }
+  }
+  
+  if (!given.packageManager) {
+    const detected = await findPackageManager(directory);
+    if (detected) {
+      console.log(chalk.gray(`Using ${detected}, the package manager of the enclosing project`));
+      given.packageManager = detected;
+    }
+  }
+  
+  if (!options.yes && !process.stdin.isTTY) {
+    console.log(chalk.yellow('No terminal to prompt in; using the defaults for the choices not passed as options'));
+  }
+  
+  const settings = options.yes || !process.stdin.isTTY
+    ? { ...DEFAULT_CREATE_NEXT_APP_SETTINGS, ...given }
+    : await promptCreateNextAppSettings(given);
+  
+  // create-next-app rejects aliases that are not of the form prefix/*
+  if (!/^[^*"'\s]+\/\*$/.test(settings.importAlias)) {
+    throw new Error(`Invalid import alias "${settings.importAlias}". Use the form @/* or ~/*.`);
+  }
+  
+  return settings;
+}
+
+/**
+ * Selects the preset to bootstrap with from the options, the prompt or the default
+ * @param directory The directory the app is created in, where the config file is looked up from
+ * @param options Bootstrap options
+ * @returns A promise that resolves to the preset
+ */
+export async function selectPreset(directory: string, options: BootstrapOptions): Promise<BootstrapPreset> {
+  const presets = await loadPresets(directory);
+  
+  if (options.preset) {
+    return getPreset(presets, options.preset);
+  }
+  
+  if (options.yes || !process.stdin.isTTY) {
+    return getPreset(presets, DEFAULT_PRESET);
+  }
+  
+  const { name } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'name',
+      message: 'Which preset should the app start from?',
+      choices: presets.map(preset => ({ name: `${preset.name}: ${preset.description}`, value: preset.name })),
+      default: DEFAULT_PRESET,
+    },
+  ]);
+  
+  return getPreset(presets, name);
+}
+
+/**
+ * Prompts for the create-next-app choices that were not given as options
+ * @param given The choices given as options
+ * @returns A promise that resolves to the complete settings
+ */
+async function promptCreateNextAppSettings(given: Partial<CreateNextAppSettings>): Promise<CreateNextAppSettings> {
+  const defaults = DEFAULT_CREATE_NEXT_APP_SETTINGS;
+  
+  const answers = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'typescript',
+      message: 'Use TypeScript?',
+      default: defaults.typescript,
+      when: given.typescript === undefined,
+    },
+    {
+      type: 'list',
+      name: 'router',
+      message: 'Which router should the app use?',
+      choices: [
+        { name: 'App Router', value: 'app' },
+        { name: 'Pages Router', value: 'pages' },
+      ],
+      default: defaults.router,
+      when: given.router === undefined,
+    },
+    {
+      type: 'confirm',
+      name: 'srcDir',
+      message: 'Put the code in a src/ directory?',
+      default: defaults.srcDir,
+      when: given.srcDir === undefined,
+    },
+    {
+      type: 'confirm',
+      name: 'tailwind',
+      message: 'Use Tailwind CSS?',
+      default: defaults.tailwind,
+      when: given.tailwind === undefined,
+    },
+    {
+      type: 'confirm',
+      name: 'eslint',
+      message: 'Use ESLint?',
+      default: defaults.eslint,
+      when: given.eslint === undefined,
+    },
+    {
+      type: 'confirm',
+      name: 'turbopack',
+      message: 'Use Turbopack for next dev?',
+      default: defaults.turbopack,
+      when: given.turbopack === undefined,
+    },
+    {
+      type: 'input',
+      name: 'importAlias',
+      message: 'Import alias:',
+      default: defaults.importAlias,
+      when: given.importAlias === undefined,
+    },
+    {
+      type: 'list',
+      name: 'packageManager',
+      message: 'Which package manager should install dependencies?',
+      choices: PACKAGE_MANAGERS,
+      default: defaults.packageManager,
+      when: given.packageManager === undefined,
+    },
+  ]);
+  
+  return { ...defaults, ...answers, ...given };
+}
+
+/**
+ * Builds the create-next-app command for a set of choices
+ *
+ * Every choice is passed as a flag so create-next-app never stops to prompt. --turbopack and
+ * --yes only exist from create-next-app 15 on, so they are left out for older pinned versions.
+ * @param settings The create-next-app choices
+ * @returns The command to run in the app directory
+ */
+export function getCreateNextAppCommand(settings: CreateNextAppSettings): string {
+  const major = parseInt(settings.createNextAppVersion, 10);
+  const modernFlags = isNaN(major) || major >= 15;
+  
+  return [
+    `npx --yes create-next-app@${settings.createNextAppVersion} .`,
+    settings.typescript ? '--ts' : '--js',
+    settings.router === 'app' ? '--app' : '--no-app',
+    settings.srcDir ? '--src-dir' : '--no-src-dir',
+    settings.tailwind ? '--tailwind' : '--no-tailwind',
+    settings.eslint ? '--eslint' : '--no-eslint',
+    modernFlags ? (settings.turbopack ? '--turbopack' : '--no-turbopack') : '',
+    `--import-alias ${JSON.stringify(settings.importAlias)}`,
+    `--use-${settings.packageManager}`,
+    modernFlags ? '--yes' : '',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Creates a new Next.js app using create-next-app and sets up a preset in it
  * @param directory The directory to create the app in
+ * @param settings The create-next-app choices
+ * @param preset The preset to set up
+ * @returns A promise that resolves when the app is created
  */
-function createNextApp(directory: string): void {
+async function createNextApp(directory: string, settings: CreateNextAppSettings, preset: BootstrapPreset): Promise<void> {
   try {
     // Use create-next-app to bootstrap a new Next.js app
     console.log(chalk.blue('Running create-next-app...'));
@@ -60,10 +339,11 @@ function createNextApp(directory: string): void {
       return; // Skip create-next-app if the directory already has Next.js files
     }
     
-    // Use npx to run create-next-app with the latest version
-    // Use a simpler command to avoid issues with quotes and special characters
+    // Pass every choice as a flag so the run never waits for input
+    const command = getCreateNextAppCommand(settings);
+    console.log(chalk.gray(command));
     execSync(
-      'npx create-next-app@latest .', 
+      command, 
       { 
         cwd: directory, 
         stdio: 'inherit',
@@ -71,56 +351,77 @@ function createNextApp(directory: string): void {
       }
     );
     
-    // Add additional dependencies for full-stack development
-    console.log(chalk.blue('Adding additional dependencies for full-stack development...'));
-    execSync(
-      'npm install axios prisma @prisma/client next-auth', 
-      { 
-        cwd: directory, 
-        stdio: 'inherit' 
-      }
-    );
+    // Add the dependencies of the preset, from the workspace root if the app is in one
+    console.log(chalk.blue(`Setting up the ${preset.name} preset...`));
+    const packageManager = await getPackageManagerTarget(directory, settings.packageManager);
+    if (preset.dependencies.length > 0) {
+      runPackageManagerCommand(packageManager, getAddCommand(packageManager, preset.dependencies));
+    }
+    if (preset.devDependencies.length > 0) {
+      runPackageManagerCommand(packageManager, getAddCommand(packageManager, preset.devDependencies, true));
+    }
     
-    // Initialize Prisma
-    console.log(chalk.blue('Initializing Prisma...'));
-    execSync(
-      'npx prisma init', 
-      { 
-        cwd: directory, 
-        stdio: 'inherit' 
-      }
-    );
+    // Write the files of the preset, leaving anything create-next-app wrote in place
+    writeFiles(directory, preset.files(settings));
     
-    // Create API directory structure
-    console.log(chalk.blue('Setting up API directory structure...'));
-    const apiDir = path.join(directory, 'src', 'app', 'api');
-    fs.ensureDirSync(apiDir);
+    // Run the init steps of the preset, like prisma generate
+    for (const presetCommand of preset.commands) {
+      runPackageManagerCommand(packageManager, getExecCommand(packageManager, presetCommand));
+    }
     
-    // Create a basic API route
-    const exampleApiDir = path.join(apiDir, 'example', 'route.ts');
-    fs.ensureDirSync(path.dirname(exampleApiDir));
-    fs.writeFileSync(
-      exampleApiDir,
-      `
-import { NextResponse } from 'next/server';
-
-export async function GET() {
-  return NextResponse.json({ message: 'Hello from the API!' });
+    console.log(chalk.green(`✓ Next.js application created with the ${preset.name} preset`));
+  } catch (error) {
+    console.error(chalk.red('Error creating Next.js app:'), error);
+    throw new Error(`Failed to create Next.js app: ${error instanceof Error ? error.message : String(error)}`);
+  }
 }
 
-export async function POST(request: Request) {
-  const body = await request.json();
-  return NextResponse.json({ 
-    message: 'Data received!', 
-    data: body 
-  });
-}
-`
+/**
+ * Writes a new app from the offline template and sets up a preset in it, without the network
+ *
+ * Nothing is installed; the preset's dependencies are declared in package.json, and the
+ * install and the preset's commands are printed as next steps.
+ * @param directory The directory to create the app in
+ * @param settings The create-next-app choices
+ * @param preset The preset to set up
+ * @returns A promise that resolves when the app is written
+ */
+async function writeOfflineApp(directory: string, settings: CreateNextAppSettings, preset: BootstrapPreset): Promise<void> {
+  try {
+    console.log(chalk.blue(`Writing the offline Next.js template with the ${preset.name} preset...`));
+    
+    const templateFiles = getOfflineTemplateFiles(path.basename(directory), settings, preset);
+    const presetFiles = preset.files(settings).filter(file =>
+      !templateFiles.some(templateFile => templateFile.path === file.path)
     );
+    writeFiles(directory, [...templateFiles, ...presetFiles]);
     
-    console.log(chalk.green('✓ Full-stack Next.js application created successfully'));
+    console.log(chalk.green(`✓ Next.js application written with the ${preset.name} preset; nothing was installed`));
+    const packageManager = await getPackageManagerTarget(directory, settings.packageManager);
+    console.log(chalk.blue(`Next steps, in ${packageManager.directory}:`));
+    console.log(chalk.gray(`  ${getInstallCommand(packageManager)}`));
+    for (const presetCommand of preset.commands) {
+      console.log(chalk.gray(`  ${getExecCommand(packageManager, presetCommand)}`));
+    }
   } catch (error) {
-    console.error(chalk.red('Error creating Next.js app:'), error);
-    throw new Error(`Failed to create Next.js app: ${error instanceof Error ? error.message : String(error)}`);
+    console.error(chalk.red('Error writing Next.js app:'), error);
+    throw new Error(`Failed to write Next.js app: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Writes files into a new app, keeping any that already exist
+ * @param directory The directory of the app
+ * @param files The files to write, relative to the app directory
+ */
+function writeFiles(directory: string, files: PresetFile[]): void {
+  for (const file of files) {
+    const filePath = path.join(directory, file.path);
+    if (fs.pathExistsSync(filePath)) {
+      console.log(chalk.yellow(`Keeping the existing ${file.path}`));
+      continue;
+    }
+    fs.outputFileSync(filePath, file.content);
+    console.log(chalk.green(`✓ Created ${file.path}`));
   }
 }
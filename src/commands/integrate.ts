@@ -2,7 +2,107 @@ import * as fs from 'fs-extra';
 import * as path from 'node:path';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { analyzeToolUrl, StagehandConfig } from '../utils/stagehand-integration';
+import { ToolAnalysisResult } from '../utils/stagehand-integration';
+import {
+  createIntegrationRecord,
+  getEnvFileKeys,
+  IntegrationManifest,
+  IntegrationRecord,
+  planIntegrationRecord,
+  readManifest,
+  recordFile,
+  MANIFEST_FILE,
+} from '../utils/manifest';
+import { FilePlan, printPlan } from '../utils/file-plan';
+import { FileTransaction } from '../utils/transaction';
+import { ConflictStrategy, resolveConflicts, skipDeletedFiles } from '../utils/conflicts';
+import { NextProjectProfile, PACKAGE_MANAGER_LOCKFILES, readProjectProfile } from '../utils/nextjs-detector';
+import {
+  getAddCommand,
+  getInstallCommand,
+  getPackageManagerTarget,
+  PackageManagerTarget,
+  runPackageManagerCommand,
+} from '../utils/package-manager';
+import { getImportPath, getSourceExtension, NextRouter, NextRouterInfo, ProjectLayout } from '../utils/project-layout';
+import { createToolNames, createUniqueToolNames, ToolNames } from '../utils/naming';
+import { findWorkspaceRoot, isWorkspacePackageDir } from '../utils/workspaces';
+import { getNextFeatures, getNextVersionWarnings, NextFeatures } from '../utils/next-features';
+import {
+  ApiAuth,
+  ApiDescription,
+  ApiOperation,
+  describeOperation,
+  escapeString,
+  generateApiMethods,
+  generateApiTypes,
+  generateApiTypesJs,
+  generateParamsFromQuery,
+  getHeaderEnvKey,
+  getMethodTypeNames,
+  getOperationTypeNames,
+  ROUTE_METHODS,
+  usesQueryParameters,
+} from '../utils/api-description';
+import { findApiDescription, isApiDocumentPath } from '../utils/openapi';
+import { GraphQLDescription, introspectGraphQL, isGraphQLEndpointPath } from '../utils/graphql';
+import { convertPostmanCollection, isPostmanCollection } from '../utils/postman';
+import { convertHar, isHarFile } from '../utils/har';
+import {
+  describeAuth,
+  generateAuthConfig,
+  generateAuthDefaults,
+  generateAuthFields,
+  generateAuthMethods,
+  getAuthEnvLines,
+  selectAuth,
+} from '../utils/auth';
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_TIMEOUT_MS,
+  generateClientDefaults,
+  generateClientErrors,
+  generateRequestMethods,
+  generateRetryHelpers,
+} from '../utils/http-client';
+
+/**
+ * Lockfiles that installing dependencies may rewrite
+ */
+const LOCKFILES = PACKAGE_MANAGER_LOCKFILES.map(([, lockfile]) => lockfile);
+
+/**
+ * Workspace directory shared integration packages are generated in by default
+ */
+const DEFAULT_SHARED_PACKAGE_DIR = 'packages/integrations';
+
+/**
+ * Scope of the names of shared integration packages
+ */
+const SHARED_PACKAGE_SCOPE = '@integrations';
+
+/**
+ * Inline styles of the widget for projects without Tailwind CSS
+ */
+const WIDGET_STYLES = {
+  container: "padding: 16, border: '1px solid #e5e7eb', borderRadius: 8",
+  title: "fontSize: 20, fontWeight: 600, marginBottom: 16",
+  loading: "textAlign: 'center', padding: 32",
+  error: "background: '#fef2f2', color: '#ef4444', padding: 16, borderRadius: 6",
+  content: "display: 'flex', flexDirection: 'column', gap: 16",
+  data: "background: '#f9fafb', padding: 16, borderRadius: 6, overflow: 'auto', fontSize: 14",
+  actions: "display: 'flex', justifyContent: 'flex-end'",
+  button: "padding: '8px 16px', background: '#3b82f6', color: '#fff', border: 'none', borderRadius: 6, cursor: 'pointer'",
+};
+
+/**
+ * Inline styles of the demo page for projects without Tailwind CSS
+ */
+const PAGE_STYLES = {
+  main: "maxWidth: 1024, margin: '0 auto', padding: '32px 16px'",
+  heading: "fontSize: 30, fontWeight: 700, marginBottom: 32",
+  content: "maxWidth: 768, margin: '0 auto'",
+};
 
 /**
  * Interface for integration options
@@ -12,75 +112,476 @@ export interface IntegrationOptions {
   createUtilityFunctions: boolean;
   createUiComponents: boolean;
   addEnvironmentVariables: boolean;
+  createStagehandAutomation: boolean;
+  updateReadme: boolean;
+  createOperationRoutes?: boolean;
+}
+
+/**
+ * Integration options used when no option is turned off
+ */
+export const DEFAULT_INTEGRATION_OPTIONS: IntegrationOptions = {
+  createApiEndpoint: true,
+  createUtilityFunctions: true,
+  createUiComponents: true,
+  addEnvironmentVariables: true,
+  createStagehandAutomation: true,
+  updateReadme: true,
+  createOperationRoutes: false,
+};
+
+/**
+ * Interface for integrate command options
+ *
+ * The artifact flags mirror --no-api, --no-utils, --no-ui, --no-env, --no-automation and
+ * --no-readme; an omitted flag means the artifact is generated. Operation routes are only
+ * generated with --operation-routes.
+ */
+export interface IntegrateOptions {
+  dryRun: boolean;
+  onConflict: ConflictStrategy;
+  interactive?: boolean;
+  api?: boolean;
+  utils?: boolean;
+  ui?: boolean;
+  env?: boolean;
+  automation?: boolean;
+  readme?: boolean;
+  operationRoutes?: boolean;
+  router?: NextRouter;
+  name?: string;
+  auth?: string;
+  sharedPackage?: string | boolean;
+  update?: boolean;
+  integrationOptions?: IntegrationOptions;
+}
+
+/**
+ * Interface for a workspace package that holds an integration library shared by several apps
+ *
+ * The location is the workspace-relative directory the package is created in, as passed
+ * with --shared-package.
+ */
+interface SharedPackage {
+  name: string;
+  directory: string;
+  location: string;
 }
 
 /**
  * Integrates an external tool into an existing Next.js application
- * @param url The URL of the external tool to integrate
+ * @param source The URL of the external tool to integrate, or the path of a Postman collection or HAR file
  * @param directory The directory of the Next.js app
+ * @param runOptions Integrate command options
  * @returns A promise that resolves when the integration is complete
  */
-export async function integrateExternalTool(url: string, directory: string): Promise<void> {
-  console.log(chalk.blue(`Integrating external tool from ${url}...`));
+export async function integrateExternalTool(
+  source: string, 
+  directory: string, 
+  runOptions: IntegrateOptions = { dryRun: false, onConflict: 'prompt' }
+): Promise<void> {
+  console.log(chalk.blue(`Integrating external tool from ${source}...`));
   
   try {
+    // A collection or capture describes the API itself, and the tool is at its base URL
+    const apiFile = isApiFileSource(source) ? path.resolve(source) : null;
+    const importedApi = apiFile ? await readApiFile(apiFile) : null;
+    const url = importedApi ? importedApi.baseUrl : source;
+    
+    // An imported file is recorded relative to the app, so update reads it again
+    const recordedSource = apiFile ? path.relative(directory, apiFile) : url;
+    
     // Skip Stagehand analysis completely and use URL-based information
     console.log(chalk.blue('Creating tool information from URL...'));
-    
-    // Create tool info based on the URL
-    const urlObj = new URL(url);
-    const hostname = urlObj.hostname;
-    const pathname = urlObj.pathname;
-    
-    // Extract a meaningful name from the URL
-    const pathParts = pathname.split('/').filter(Boolean);
-    const toolName = pathParts.length > 0 ? pathParts[pathParts.length - 1] : hostname.split('.')[0];
-    
-    const toolInfo = {
-      url,
-      toolInfo: {
-        name: toolName,
-        description: `Integration with ${hostname}${pathname}`,
-        purpose: `Provides integration with ${hostname}${pathname}`
-      },
-      pageStructure: {
-        links: [],
-        buttons: []
-      },
-      timestamp: new Date().toISOString()
-    };
+    const toolInfo = createToolInfo(url);
+    if (importedApi) {
+      toolInfo.toolInfo.name = importedApi.title;
+    }
     
     console.log(chalk.green('✓ Tool information created'));
     console.log(chalk.blue('Tool information:'));
     console.log(JSON.stringify(toolInfo, null, 2));
     
-    // Use default options
-    console.log(chalk.blue('Using default integration options...'));
-    const options: IntegrationOptions = {
-      createApiEndpoint: true,
-      createUtilityFunctions: true,
-      createUiComponents: true,
-      addEnvironmentVariables: true,
-    };
+    // The tool may describe its API with GraphQL introspection or an OpenAPI document
+    if (importedApi) {
+      toolInfo.api = importedApi;
+    } else {
+      await addApiDescription(url, toolInfo);
+    }
+    if (toolInfo.graphql) {
+      console.log(chalk.green(`✓ Introspected the GraphQL schema of ${toolInfo.graphql.title}${toolInfo.graphql.mutationType ? ', with mutations' : ''}`));
+    }
+    if (toolInfo.api) {
+      console.log(chalk.green(`✓ Found the ${toolInfo.api.format} description of ${toolInfo.api.title} with ${toolInfo.api.operations.length} operations`));
+    }
     
-  // Create the integration
-  await createIntegration(url, directory, toolInfo, options);
-  
-  // Install dependencies based on the tool name
-  await installDependencies(directory, toolInfo);
-  
-  console.log(chalk.green('✓ External tool integration complete'));
+    // --auth overrides the scheme the API declares
+    toolInfo.auth = selectAuth(runOptions.auth, toolInfo.api?.auth);
+    console.log(chalk.blue(`Authenticating requests with ${describeAuth(toolInfo.auth)}`));
+    if (toolInfo.auth.type === 'oauth2' && !toolInfo.auth.tokenUrl) {
+      console.warn(chalk.yellow('No token URL is known for OAuth 2.0; pass --auth oauth2:<token-url> or set it in the environment'));
+    }
+    
+    const options = await selectIntegrationOptions(runOptions);
+    printIntegrationOptions(options);
+    
+    const profile = await readProjectProfile(directory);
+    const features = getNextFeatures(profile.nextVersion);
+    const router = selectRouter(profile, features, runOptions.router);
+    console.log(chalk.blue(`Generating ${router.router === 'app' ? 'App Router' : 'Pages Router'} files for Next.js ${features.version} in ${path.relative(directory, router.directory)}`));
+    
+    for (const warning of getNextVersionWarnings(profile.nextVersion, router.router)) {
+      console.log(chalk.yellow(warning));
+    }
+    
+    const manifest = await readManifest(directory);
+    const names = selectToolNames(recordedSource, toolInfo, manifest, runOptions.name);
+    const previous = manifest.integrations[names.kebab];
+    
+    const sharedPackage = runOptions.sharedPackage
+      ? await selectSharedPackage(directory, names, runOptions.sharedPackage)
+      : null;
+    
+    // Plan the integration files and install commands
+    const packageManager = await getPackageManagerTarget(directory, profile.packageManager);
+    const plan = new FilePlan(directory);
+    const record = await createIntegration(plan, url, toolInfo, options, profile, router, names, sharedPackage);
+    record.source = recordedSource;
+    record.auth = runOptions.auth;
+    
+    // Variables a previous run added are still in the env files, though this run does not add them again
+    if (previous) {
+      record.envFiles = Array.from(new Set([...previous.envFiles, ...record.envFiles]));
+      record.envKeys = Array.from(new Set([...previous.envKeys, ...record.envKeys]));
+      record.envFileKeys = Object.fromEntries(record.envFiles.map(envFile => [
+        envFile,
+        Array.from(new Set([...getEnvFileKeys(previous, envFile), ...(record.envFileKeys?.[envFile] || [])])),
+      ]));
+    }
+    
+    // Keep the generated content as the base for future merges
+    const generated = new Map(
+      plan.getFiles()
+        .filter(file => file.kind === 'generated')
+        .map(file => [plan.relative(file.path), file.content] as [string, string])
+    );
+    
+    // An update does not bring back generated files the user deleted
+    if (runOptions.update && previous) {
+      skipDeletedFiles(plan, record, previous);
+    }
+    
+    // Check for existing files before anything is written
+    await resolveConflicts(plan, record, previous, runOptions.onConflict, runOptions.dryRun);
+    
+    // Only install packages a previous run did not already install
+    record.dependencies = getDependencies(record.tool);
+    const newDependencies = record.dependencies.filter(
+      dependency => !previous || !previous.dependencies.includes(dependency)
+    );
+    planDependencies(plan, packageManager, newDependencies);
+    await planIntegrationRecord(plan, record, generated);
+    
+    if (runOptions.dryRun) {
+      printPlan(plan);
+      console.log('');
+      console.log(chalk.blue(`The ${record.tool} integration would be recorded in ${MANIFEST_FILE}`));
+      printSharedPackageSteps(sharedPackage, packageManager);
+      return;
+    }
+    
+    // Write the planned files, manifest and installs as one transaction
+    const transaction = new FileTransaction(directory);
+    await transaction.begin();
+    
+    try {
+      await transaction.stage(plan);
+      
+      // Installing dependencies rewrites package.json and the lockfile, in a workspace the root one
+      for (const installDir of new Set([directory, packageManager.root])) {
+        for (const file of ['package.json', ...LOCKFILES]) {
+          await transaction.backup(path.join(installDir, file));
+        }
+      }
+      
+      await transaction.commit();
+      console.log(chalk.green(`✓ Integration files written and recorded in ${MANIFEST_FILE}`));
+      
+      // Install dependencies based on the tool name
+      installDependencies(packageManager, newDependencies);
+      transaction.throwIfInterrupted();
+      
+      await transaction.finish();
+    } catch (error) {
+      await transaction.rollback();
+      
+      if (newDependencies.length > 0) {
+        console.log(chalk.yellow('node_modules may still contain packages from this run; reinstall to resync it.'));
+      }
+      throw error;
+    }
+    
+    console.log(chalk.green('✓ External tool integration complete'));
+    printSharedPackageSteps(sharedPackage, packageManager);
   } catch (error) {
     console.error(chalk.red('Error integrating external tool:'), error);
     throw new Error(`Failed to integrate external tool: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Creates tool information from the URL alone, without browser analysis
+ * @param url The URL of the external tool
+ * @returns Tool information in the same shape as a Stagehand analysis result
+ */
+export function createToolInfo(url: string): ToolAnalysisResult {
+  const urlObj = new URL(url);
+  const hostname = urlObj.hostname;
+  const pathname = urlObj.pathname;
+  
+  // Extract a meaningful name from the URL, which for an API document or a /graphql endpoint is the host
+  const pathParts = pathname.split('/').filter(Boolean);
+  const lastPart = pathParts[pathParts.length - 1];
+  const toolName = lastPart && !isApiDocumentPath(lastPart) && !isGraphQLEndpointPath(lastPart)
+    ? lastPart
+    : hostname.replace(/^(www|api)\./, '').split('.')[0];
+  
+  return {
+    url,
+    toolInfo: {
+      name: toolName,
+      description: `Integration with ${hostname}${pathname}`,
+      purpose: `Provides integration with ${hostname}${pathname}`
+    },
+    pageStructure: {
+      links: [],
+      buttons: []
+    },
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Adds the description of the tool's API to the tool information, if it has one
+ *
+ * A GraphQL endpoint is introspected; any other URL may be, or link to, an OpenAPI document.
+ * @param url The URL of the external tool
+ * @param toolInfo Information about the tool
+ * @returns A promise that resolves when the description has been looked for
+ */
+export async function addApiDescription(url: string, toolInfo: ToolAnalysisResult): Promise<void> {
+  if (isGraphQLEndpointPath(new URL(url).pathname)) {
+    toolInfo.graphql = await introspectGraphQL(url) || undefined;
+  } else {
+    toolInfo.api = await findApiDescription(url, toolInfo) || undefined;
+  }
+}
+
+/**
+ * Checks whether the source of an integration is a file rather than the URL of the tool
+ * @param source The URL or file path passed to integrate
+ * @returns True if the source is not an http or https URL
+ */
+export function isApiFileSource(source: string): boolean {
+  return !/^https?:\/\//i.test(source);
+}
+
+/**
+ * Reads the API of a tool from a Postman collection or HAR file
+ * @param filePath The absolute path of the file
+ * @returns A promise that resolves to the API
+ */
+async function readApiFile(filePath: string): Promise<ApiDescription> {
+  let document: any;
+  try {
+    document = await fs.readJson(filePath);
+  } catch (error) {
+    throw new Error(`Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  const api = document && isPostmanCollection(document)
+    ? convertPostmanCollection(document)
+    : document && isHarFile(document) ? convertHar(document) : null;
+  
+  if (!api) {
+    throw new Error(`${filePath} is not a Postman v2 collection or HAR file`);
+  }
+  if (api.operations.length === 0) {
+    throw new Error(`${filePath} has no API requests to generate methods for`);
+  }
+  
+  return api;
+}
+
+/**
+ * Selects the integration options of a run from recorded options, the prompt or the CLI flags
+ * @param runOptions Integrate command options
+ * @returns A promise that resolves to the integration options
+ */
+async function selectIntegrationOptions(runOptions: IntegrateOptions): Promise<IntegrationOptions> {
+  if (runOptions.integrationOptions) {
+    return runOptions.integrationOptions;
+  }
+  
+  const options: IntegrationOptions = {
+    createApiEndpoint: runOptions.api !== false,
+    createUtilityFunctions: runOptions.utils !== false,
+    createUiComponents: runOptions.ui !== false,
+    addEnvironmentVariables: runOptions.env !== false,
+    createStagehandAutomation: runOptions.automation !== false,
+    updateReadme: runOptions.readme !== false,
+    createOperationRoutes: runOptions.operationRoutes === true,
+  };
+  
+  if (!runOptions.interactive) {
+    return options;
+  }
+  
+  if (!process.stdin.isTTY) {
+    throw new Error('--interactive needs a terminal. Use the --no-* flags to choose what to generate instead.');
+  }
+  
+  return promptIntegrationOptions(options);
+}
+
+/**
+ * Selects the names of the integration, numbering them if another integration uses them
+ * @param source The URL or file the integration is generated from, as the manifest records it
+ * @param toolInfo Information about the tool
+ * @param manifest The manifest of the project
+ * @param requested The name passed with --name or recorded by a previous run
+ * @returns The names of the tool
+ */
+function selectToolNames(
+  source: string, 
+  toolInfo: any, 
+  manifest: IntegrationManifest, 
+  requested?: string
+): ToolNames {
+  const isTaken = (kebab: string) => {
+    const existing = manifest.integrations[kebab];
+    return existing !== undefined && existing.source !== source;
+  };
+  
+  if (requested) {
+    const names = createToolNames(requested);
+    if (isTaken(names.kebab)) {
+      throw new Error(`The name "${names.kebab}" is already used by the integration of ${manifest.integrations[names.kebab].source}. Pass a different --name.`);
+    }
+    return names;
+  }
+  
+  const toolName = getToolName(source, toolInfo);
+  const names = createUniqueToolNames(toolName, isTaken);
+  
+  if (names.kebab !== toolName) {
+    console.log(chalk.yellow(`The name "${toolName}" is already used by another integration; using "${names.kebab}"`));
+  }
+  
+  return names;
+}
+
+/**
+ * Selects the router to generate API routes and pages for
+ *
+ * Projects that use both routers get App Router files unless another router is requested, and
+ * projects without a router get the Pages Router on Next.js versions without a stable App Router.
+ * @param layout The project layout
+ * @param features The features of the project's Next.js version
+ * @param requested The router requested with --router or recorded by a previous run
+ * @returns The router and its directory
+ */
+function selectRouter(layout: ProjectLayout, features: NextFeatures, requested?: NextRouter): NextRouterInfo {
+  const routers = layout.routers;
+  
+  if (requested) {
+    return routers.find(info => info.router === requested) || { router: requested, directory: path.join(layout.sourceDir, requested) };
+  }
+  
+  if (routers.length > 1) {
+    console.log(chalk.yellow('Both the App Router and the Pages Router are in use; generating App Router files. Pass --router pages for Pages Router files.'));
+  }
+  
+  const fallback: NextRouter = features.appRouter ? 'app' : 'pages';
+  return routers[0] || { router: fallback, directory: path.join(layout.sourceDir, fallback) };
+}
+
+/**
+ * Selects the workspace package an integration library is shared through
+ * @param directory The directory of the Next.js app
+ * @param names The names of the tool
+ * @param requested The directory passed with --shared-package, or true for the default
+ * @returns A promise that resolves to the shared package
+ */
+async function selectSharedPackage(directory: string, names: ToolNames, requested: string | true): Promise<SharedPackage> {
+  const root = await findWorkspaceRoot(directory);
+  if (!root) {
+    throw new Error('--shared-package needs the app to be part of a workspace (package.json workspaces or pnpm-workspace.yaml).');
+  }
+  
+  const locationDir = path.resolve(root, requested === true ? DEFAULT_SHARED_PACKAGE_DIR : requested);
+  const location = path.relative(root, locationDir).split(path.sep).join('/');
+  const packageDir = path.join(locationDir, names.kebab);
+  
+  if (location === '' || location.startsWith('..')) {
+    throw new Error(`--shared-package must be a directory inside the workspace root ${root}.`);
+  }
+  
+  if (!await isWorkspacePackageDir(root, packageDir)) {
+    console.log(chalk.yellow(`${location}/${names.kebab} is not covered by the workspace packages; add "${location}/*" to them so the package gets linked.`));
+  }
+  
+  return { name: `${SHARED_PACKAGE_SCOPE}/${names.kebab}`, directory: packageDir, location };
+}
+
+/**
+ * Prints what is left to do before an app can import a shared integration package
+ * @param sharedPackage The shared package, or null if the library is generated in the app
+ * @param packageManager The package manager of the app
+ */
+function printSharedPackageSteps(sharedPackage: SharedPackage | null, packageManager: PackageManagerTarget): void {
+  if (!sharedPackage) {
+    return;
+  }
+  
+  console.log(chalk.yellow(`To use ${sharedPackage.name}:`));
+  console.log(chalk.yellow(`  - run \`${getInstallCommand(packageManager)}\` in the workspace root to link it`));
+  console.log(chalk.yellow(`  - add '${sharedPackage.name}' to transpilePackages in the Next.js config of each app that imports it`));
+}
+
+/**
+ * Prints which artifacts a run generates
+ * @param options Integration options
+ */
+function printIntegrationOptions(options: IntegrationOptions): void {
+  const labels: [keyof IntegrationOptions, string][] = [
+    ['createApiEndpoint', 'API endpoint'],
+    ['createUtilityFunctions', 'Utility functions'],
+    ['createUiComponents', 'UI components'],
+    ['addEnvironmentVariables', 'Environment variables'],
+    ['createStagehandAutomation', 'Stagehand automation'],
+    ['updateReadme', 'README section'],
+    ['createOperationRoutes', 'API operation routes'],
+  ];
+  
+  console.log(chalk.blue('Integration options:'));
+  for (const [key, label] of labels) {
+    console.log(options[key] ? chalk.green(`  ✓ ${label}`) : chalk.gray(`  - ${label} (skipped)`));
+  }
+  
+  if (options.createUiComponents && !options.createApiEndpoint) {
+    console.log(chalk.yellow('The UI widget fetches data from the API endpoint, which this run does not create.'));
+  }
+}
+
 /**
  * Prompts the user for integration options
+ * @param defaults The options preselected in the prompt
  * @returns A promise that resolves to the selected options
  */
-async function promptIntegrationOptions(): Promise<IntegrationOptions> {
+async function promptIntegrationOptions(
+  defaults: IntegrationOptions = DEFAULT_INTEGRATION_OPTIONS
+): Promise<IntegrationOptions> {
   console.log(chalk.blue('Please select integration options:'));
   
   try {
@@ -89,25 +590,43 @@ async function promptIntegrationOptions(): Promise<IntegrationOptions> {
         type: 'confirm',
         name: 'createApiEndpoint',
         message: 'Create API endpoint for the tool?',
-        default: true,
+        default: defaults.createApiEndpoint,
       },
       {
         type: 'confirm',
         name: 'createUtilityFunctions',
         message: 'Create utility functions for interacting with the tool?',
-        default: true,
+        default: defaults.createUtilityFunctions,
       },
       {
         type: 'confirm',
         name: 'createUiComponents',
         message: 'Create UI components for the tool?',
-        default: true,
+        default: defaults.createUiComponents,
       },
       {
         type: 'confirm',
         name: 'addEnvironmentVariables',
         message: 'Add environment variables for the tool?',
-        default: true,
+        default: defaults.addEnvironmentVariables,
+      },
+      {
+        type: 'confirm',
+        name: 'createStagehandAutomation',
+        message: 'Create a Stagehand automation for the tool?',
+        default: defaults.createStagehandAutomation,
+      },
+      {
+        type: 'confirm',
+        name: 'updateReadme',
+        message: 'Add a section about the tool to README.md?',
+        default: defaults.updateReadme,
+      },
+      {
+        type: 'confirm',
+        name: 'createOperationRoutes',
+        message: 'Create a route handler for each operation of the tool\'s OpenAPI description?',
+        default: defaults.createOperationRoutes,
       },
     ]);
     
@@ -116,67 +635,101 @@ async function promptIntegrationOptions(): Promise<IntegrationOptions> {
     console.error(chalk.yellow('Error prompting for options:'), error);
     console.log(chalk.yellow('Using default options instead.'));
     
-    // Return default options
-    return {
-      createApiEndpoint: true,
-      createUtilityFunctions: true,
-      createUiComponents: true,
-      addEnvironmentVariables: true,
-    };
+    return defaults;
   }
 }
 
 /**
- * Creates the integration files and configurations
+ * Plans the integration files and configurations
+ * @param plan The plan to add the files to
  * @param url The URL of the external tool
- * @param directory The directory of the Next.js app
  * @param toolInfo Information about the tool
  * @param options Integration options
+ * @param profile The profile of the project
+ * @param router The router to generate API routes and pages for
+ * @param names The names of the tool
+ * @param sharedPackage The workspace package to generate the library in, or null for the app
+ * @returns A promise that resolves to the record of everything that will be generated
  */
 async function createIntegration(
+  plan: FilePlan, 
   url: string, 
-  directory: string, 
   toolInfo: any, 
-  options: IntegrationOptions
-): Promise<void> {
+  options: IntegrationOptions,
+  appProfile: NextProjectProfile,
+  router: NextRouterInfo,
+  names: ToolNames,
+  sharedPackage: SharedPackage | null
+): Promise<IntegrationRecord> {
   // Create a directory for the tool integration
-  const toolName = getToolName(url, toolInfo);
-  const integrationDir = path.join(directory, 'src', 'lib', 'integrations', toolName);
-  await fs.ensureDir(integrationDir);
+  const record = createIntegrationRecord(names.kebab, url, { ...options });
+  record.router = router.router;
+  const integrationDir = sharedPackage ? sharedPackage.directory : getIntegrationDir(appProfile, names);
+  const features = getNextFeatures(appProfile.nextVersion);
+  
+  // App files import a shared library by its package name
+  const profile: NextProjectProfile = sharedPackage
+    ? { ...appProfile, aliases: [{ pattern: sharedPackage.name, targets: [integrationDir] }, ...appProfile.aliases] }
+    : appProfile;
   
   console.log(chalk.blue(`Creating integration files in ${integrationDir}...`));
   
+  if (sharedPackage) {
+    record.sharedPackage = sharedPackage.location;
+    await planSharedPackage(plan, sharedPackage, profile);
+  }
+  
   // Create the main integration file
-  await fs.writeFile(
-    path.join(integrationDir, 'index.ts'),
-    generateIntegrationIndex(toolName, url, toolInfo)
+  await plan.write(
+    path.join(integrationDir, `index${getSourceExtension(profile)}`),
+    profile.typescript
+      ? generateIntegrationIndex(names, url, toolInfo, options)
+      : generateIntegrationIndexJs(names, url, toolInfo, options)
   );
   
   // Create API endpoint if selected
   if (options.createApiEndpoint) {
-    await createApiEndpoint(directory, toolName, url, toolInfo);
+    await createApiEndpoint(plan, integrationDir, names, url, toolInfo, profile, router, features);
+  }
+  
+  // Create a route handler for each API operation if selected
+  if (options.createOperationRoutes) {
+    await createOperationRoutes(plan, integrationDir, names, toolInfo, profile, router, features);
   }
   
   // Create utility functions if selected
   if (options.createUtilityFunctions) {
-    await createUtilityFunctions(integrationDir, toolName, url, toolInfo);
+    await createUtilityFunctions(plan, integrationDir, names, url, toolInfo, profile);
   }
   
   // Create UI components if selected
   if (options.createUiComponents) {
-    await createUiComponents(directory, toolName, url, toolInfo);
+    await createUiComponents(plan, integrationDir, names, url, toolInfo, profile, router, features);
   }
   
   // Add environment variables if selected
   if (options.addEnvironmentVariables) {
-    await addEnvironmentVariables(directory, toolName, toolInfo);
+    await addEnvironmentVariables(plan, record, names, toolInfo);
   }
   
-  // Create Stagehand automation file
-  await createStagehandAutomation(integrationDir, toolName, url, toolInfo);
+  // Create Stagehand automation file if selected
+  if (options.createStagehandAutomation) {
+    await createStagehandAutomation(plan, integrationDir, names, url, toolInfo, profile);
+  }
   
-  // Update the README.md file with integration information
-  await updateReadme(directory, toolName, url, toolInfo);
+  // Update the README.md file with integration information if selected
+  if (options.updateReadme) {
+    await updateReadme(plan, record, integrationDir, names, url, toolInfo, options, profile);
+  }
+  
+  // Record the files the integration owns
+  for (const file of plan.getFiles()) {
+    if (file.kind === 'generated') {
+      recordFile(record, plan.directory, file.path, file.content);
+    }
+  }
+  
+  return record;
 }
 
 /**
@@ -185,7 +738,7 @@ async function createIntegration(
  * @param toolInfo Information about the tool
  * @returns A normalized tool name
  */
-function getToolName(url: string, toolInfo: any): string {
+export function getToolName(url: string, toolInfo: any): string {
   // Try to extract a name from the tool info
   let name = '';
   
@@ -207,39 +760,83 @@ function getToolName(url: string, toolInfo: any): string {
   }
   
   // Normalize the name
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '');
+  return createToolNames(name).kebab;
+}
+
+/**
+ * Gets the directory of an integration library
+ * @param layout The project layout
+ * @param names The names of the tool
+ * @returns The absolute path of the directory
+ */
+function getIntegrationDir(layout: ProjectLayout, names: ToolNames): string {
+  return path.join(layout.sourceDir, 'lib', 'integrations', names.kebab);
+}
+
+/**
+ * Plans the package.json of a shared integration package and the app's dependency on it
+ * @param plan The plan to add the files to
+ * @param sharedPackage The shared package
+ * @param profile The profile of the app
+ */
+async function planSharedPackage(plan: FilePlan, sharedPackage: SharedPackage, profile: NextProjectProfile): Promise<void> {
+  const entry = `./index${getSourceExtension(profile)}`;
+  const packageManifest = {
+    name: sharedPackage.name,
+    version: '0.0.0',
+    private: true,
+    main: entry,
+    ...(profile.typescript ? { types: entry } : {}),
+  };
+  await plan.write(path.join(sharedPackage.directory, 'package.json'), JSON.stringify(packageManifest, null, 2) + '\n');
+  
+  const packageJsonPath = path.join(plan.directory, 'package.json');
+  const existing = await plan.read(packageJsonPath);
+  const packageJson = existing ? JSON.parse(existing) : {};
+  
+  if (!packageJson.dependencies?.[sharedPackage.name]) {
+    // npm and Yarn link workspace packages by version, pnpm and Bun need the workspace protocol
+    const range = profile.packageManager === 'pnpm' || profile.packageManager === 'bun' ? 'workspace:*' : '*';
+    packageJson.dependencies = { ...packageJson.dependencies, [sharedPackage.name]: range };
+    await plan.write(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n', 'shared');
+  }
 }
 
 /**
  * Generates the content for the main integration index file
- * @param toolName The name of the tool
+ * @param names The names of the tool
  * @param url The URL of the tool
  * @param toolInfo Information about the tool
+ * @param options Integration options
  * @returns The content for the index.ts file
  */
-function generateIntegrationIndex(toolName: string, url: string, toolInfo: any): string {
+function generateIntegrationIndex(names: ToolNames, url: string, toolInfo: any, options: IntegrationOptions): string {
+  const api: ApiDescription | undefined = toolInfo.api;
+  const graphql: GraphQLDescription | undefined = toolInfo.graphql;
+  const auth: ApiAuth = toolInfo.auth || { type: 'bearer' };
+  
   return `/**
- * Integration with ${toolName}
+ * Integration with ${names.kebab}
  * URL: ${url}
  * Generated by Next.js Tool Integrator
  */
-
-export interface ${capitalizeFirstLetter(toolName)}Config {
-  apiKey?: string;
+${api ? generateApiTypeImports(api, getMethodTypeNames(api, names), names, options, true) : ''}${graphql ? generateApiTypeImports(graphql, getGraphQLRootTypes(graphql), names, options, true) : ''}
+export interface ${names.pascal}Config {${generateAuthConfig(auth, true)}
   baseUrl?: string;
   timeout?: number;
+  maxRetries?: number;${api?.headers ? '\n  headers?: Record<string, string>;' : ''}
 }
-
-export class ${capitalizeFirstLetter(toolName)}Integration {
-  private config: ${capitalizeFirstLetter(toolName)}Config;
+${graphql ? `
+export interface ${names.pascal}GraphQLResponse<TData> {
+  data?: TData | null;
+  errors?: { message: string; path?: (string | number)[] }[];
+}
+` : ''}${generateClientErrors(names, true)}${generateRetryHelpers(true)}${api && usesQueryParameters(api) ? generateQueryStringHelper(true) : ''}
+export class ${names.pascal}Integration {
+  private config: ${names.pascal}Config;${generateAuthFields(auth, true)}
   
-  constructor(config: ${capitalizeFirstLetter(toolName)}Config = {}) {
-    this.config = {
-      baseUrl: '${url}',
-      timeout: 30000,
+  constructor(config: ${names.pascal}Config = {}) {
+    this.config = {${generateAuthDefaults(auth, names)}${generateClientDefaults(names, api ? api.baseUrl : url)}${api?.headers ? generateDefaultHeaders(api, names) : ''}
       ...config,
     };
   }
@@ -248,236 +845,1098 @@ export class ${capitalizeFirstLetter(toolName)}Integration {
    * Initialize the integration
    */
   async initialize(): Promise<void> {
-    console.log('Initializing ${toolName} integration...');
+    console.log('Initializing ${names.kebab} integration...');
     // Add initialization logic here
   }
   
+${generateRequestMethods(names, auth, !!api, !!api?.headers, true)}${generateAuthMethods(auth, names, true)}${api ? `
+  
+${generateApiMethods(api, names, true)}` : ''}${graphql ? `
+  
+${generateGraphQLMethods(graphql, names, true)}` : ''}
+}
+
+// Export a singleton instance with default configuration
+export const ${names.camel} = new ${names.pascal}Integration();
+${options.createUtilityFunctions ? `
+// Export types and utilities
+export * from './types';
+export * from './utils';
+` : ''}`;
+}
+
+/**
+ * Generates the content for the main integration index file of a JavaScript project
+ * @param names The names of the tool
+ * @param url The URL of the tool
+ * @param toolInfo Information about the tool
+ * @param options Integration options
+ * @returns The content for the index.js file
+ */
+function generateIntegrationIndexJs(names: ToolNames, url: string, toolInfo: any, options: IntegrationOptions): string {
+  const api: ApiDescription | undefined = toolInfo.api;
+  const graphql: GraphQLDescription | undefined = toolInfo.graphql;
+  const auth: ApiAuth = toolInfo.auth || { type: 'bearer' };
+  
+  return `/**
+ * Integration with ${names.kebab}
+ * URL: ${url}
+ * Generated by Next.js Tool Integrator
+ */
+${api ? generateApiTypeImports(api, getMethodTypeNames(api, names), names, options, false) : ''}${graphql ? generateApiTypeImports(graphql, getGraphQLRootTypes(graphql), names, options, false) : ''}
+/**
+ * @typedef {Object} ${names.pascal}Config${generateAuthConfig(auth, false)}
+ * @property {string} [baseUrl]
+ * @property {number} [timeout]
+ * @property {number} [maxRetries]${api?.headers ? '\n * @property {Record<string, string>} [headers]' : ''}
+ */
+${graphql ? `
+/**
+ * @template TData
+ * @typedef {Object} ${names.pascal}GraphQLResponse
+ * @property {TData | null} [data]
+ * @property {{ message: string, path?: (string | number)[] }[]} [errors]
+ */
+` : ''}${generateClientErrors(names, false)}${generateRetryHelpers(false)}${api && usesQueryParameters(api) ? generateQueryStringHelper(false) : ''}
+export class ${names.pascal}Integration {
+  /**
+   * @param {${names.pascal}Config} [config]
+   */
+  constructor(config = {}) {
+    /** @type {${names.pascal}Config} */
+    this.config = {${generateAuthDefaults(auth, names)}${generateClientDefaults(names, api ? api.baseUrl : url)}${api?.headers ? generateDefaultHeaders(api, names) : ''}
+      ...config,
+    };${generateAuthFields(auth, false)}
+  }
+  
   /**
-   * Make a request to the ${toolName} API
-   * @param endpoint The API endpoint
-   * @param options Request options
-   * @returns The response data
+   * Initialize the integration
+   * @returns {Promise<void>}
    */
-  async request(endpoint: string, options: RequestInit = {}): Promise<any> {
-    const url = new URL(endpoint, this.config.baseUrl).toString();
-    
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.config.apiKey ? { 'Authorization': \`Bearer \${this.config.apiKey}\` } : {}),
-        ...(options.headers || {}),
-      },
-    });
-    
-    if (!response.ok) {
-      throw new Error(\`${toolName} API error: \${response.status} \${response.statusText}\`);
-    }
-    
-    return response.json();
+  async initialize() {
+    console.log('Initializing ${names.kebab} integration...');
+    // Add initialization logic here
   }
+  
+${generateRequestMethods(names, auth, !!api, !!api?.headers, false)}${generateAuthMethods(auth, names, false)}${api ? `
+  
+${generateApiMethods(api, names, false)}` : ''}${graphql ? `
+  
+${generateGraphQLMethods(graphql, names, false)}` : ''}
 }
 
 // Export a singleton instance with default configuration
-export const ${toolName} = new ${capitalizeFirstLetter(toolName)}Integration();
-
+export const ${names.camel} = new ${names.pascal}Integration();
+${options.createUtilityFunctions ? `
 // Export types and utilities
 export * from './types';
 export * from './utils';
+` : ''}`;
+}
+
+/**
+ * Generates the default headers of the integration config, reading headers with a variable from the environment
+ * @param api The API of the tool
+ * @param names The names of the tool
+ * @returns The headers property, starting on a new line
+ */
+function generateDefaultHeaders(api: ApiDescription, names: ToolNames): string {
+  const headers = (api.headers || []).map(header => {
+    const value = `'${escapeString(header.value)}'`;
+    return `\n        '${escapeString(header.name)}': ${header.variable ? `process.env.${getHeaderEnvKey(header, names)} || ${value}` : value},`;
+  });
+  
+  return `\n      headers: {${headers.join('')}\n      },`;
+}
+
+/**
+ * Generates the API types an integration index uses, imported from types when utilities are generated
+ * @param api The API of the tool
+ * @param typeNames The types the index uses
+ * @param names The names of the tool
+ * @param options Integration options
+ * @param typescript Whether to generate TypeScript
+ * @returns The imports or every declaration of the API, with a leading blank line
+ */
+function generateApiTypeImports(
+  api: ApiDescription,
+  typeNames: string[],
+  names: ToolNames,
+  options: IntegrationOptions,
+  typescript: boolean
+): string {
+  if (!options.createUtilityFunctions) {
+    return `\n${typescript ? generateApiTypes(api, names) : generateApiTypesJs(api, names)}`;
+  }
+  
+  if (typeNames.length === 0) {
+    return '';
+  }
+  if (typescript) {
+    return `\nimport type {\n${typeNames.map(name => `  ${name},`).join('\n')}\n} from './types';\n`;
+  }
+  
+  return `\n${typeNames.map(name => `/** @typedef {import('./types').${name}} ${name} */`).join('\n')}\n`;
+}
+
+/**
+ * Gets the root operation types of a GraphQL API, which type what queries and mutations return by default
+ * @param graphql The GraphQL API of the tool
+ * @returns The names of the query and mutation types
+ */
+function getGraphQLRootTypes(graphql: GraphQLDescription): string[] {
+  return [graphql.queryType, graphql.mutationType].filter((name): name is string => !!name);
+}
+
+/**
+ * Generates the methods that send GraphQL operations to the tool
+ * @param graphql The GraphQL API of the tool
+ * @param names The names of the tool
+ * @param typescript Whether to generate TypeScript
+ * @returns The methods, indented for the class body
+ */
+function generateGraphQLMethods(graphql: GraphQLDescription, names: ToolNames, typescript: boolean): string {
+  const responseType = `${names.pascal}GraphQLResponse`;
+  const operations = [
+    graphql.queryType ? { method: 'query', root: graphql.queryType } : null,
+    graphql.mutationType ? { method: 'mutation', root: graphql.mutationType } : null,
+  ].filter((operation): operation is { method: string; root: string } => !!operation);
+  
+  const execute = typescript
+    ? `  /**
+   * Send a GraphQL operation to ${names.kebab} and return the whole response, errors included
+   * @param query The GraphQL document
+   * @param variables The variables of the operation
+   * @param operationName The operation to run when the document has several
+   * @returns The data and errors of the response
+   */
+  async execute<TData = unknown>(query: string, variables: object = {}, operationName?: string): Promise<${responseType}<TData>> {
+    return this.request('', {
+      method: 'POST',
+      body: JSON.stringify({ query, variables, operationName }),
+    });
+  }`
+    : `  /**
+   * Send a GraphQL operation to ${names.kebab} and return the whole response, errors included
+   * @template [TData=unknown]
+   * @param {string} query The GraphQL document
+   * @param {object} [variables] The variables of the operation
+   * @param {string} [operationName] The operation to run when the document has several
+   * @returns {Promise<${responseType}<TData>>} The data and errors of the response
+   */
+  async execute(query, variables = {}, operationName) {
+    return this.request('', {
+      method: 'POST',
+      body: JSON.stringify({ query, variables, operationName }),
+    });
+  }`;
+  
+  const methods = operations.map(({ method, root }) => typescript
+    ? `  /**
+   * Run a GraphQL ${method}, throwing the errors of the response
+   * @param ${method} The ${method} document
+   * @param variables The variables of the ${method}, like the ${root}<Field>Args types
+   * @returns The data of the response
+   */
+  async ${method}<TData = Partial<${root}>>(${method}: string, variables: object = {}): Promise<TData> {
+    return this.getData(await this.execute<TData>(${method}, variables));
+  }`
+    : `  /**
+   * Run a GraphQL ${method}, throwing the errors of the response
+   * @template [TData=Partial<${root}>]
+   * @param {string} ${method} The ${method} document
+   * @param {object} [variables] The variables of the ${method}, like the ${root}<Field>Args types
+   * @returns {Promise<TData>} The data of the response
+   */
+  async ${method}(${method}, variables = {}) {
+    return this.getData(await this.execute(${method}, variables));
+  }`);
+  
+  const getData = typescript
+    ? `  /**
+   * Get the data of a GraphQL response
+   * @param response The response
+   * @returns The data
+   */
+  private getData<TData>(response: ${responseType}<TData>): TData {
+    if (response.errors && response.errors.length > 0) {
+      throw new ${names.pascal}ApiError(\`${names.kebab} GraphQL error: \${response.errors.map(error => error.message).join('; ')}\`, 200, response);
+    }
+    
+    return response.data as TData;
+  }`
+    : `  /**
+   * Get the data of a GraphQL response
+   * @template TData
+   * @param {${responseType}<TData>} response The response
+   * @returns {TData} The data
+   */
+  getData(response) {
+    if (response.errors && response.errors.length > 0) {
+      throw new ${names.pascal}ApiError(\`${names.kebab} GraphQL error: \${response.errors.map(error => error.message).join('; ')}\`, 200, response);
+    }
+    
+    return /** @type {TData} */ (response.data);
+  }`;
+  
+  return [execute, ...methods, getData].join('\n  \n');
+}
+
+/**
+ * Generates the helper that appends query parameters to a request path
+ * @param typescript Whether to generate TypeScript
+ * @returns The helper function, with a leading blank line
+ */
+function generateQueryStringHelper(typescript: boolean): string {
+  return `
+/**
+ * Builds the query string of a request, leaving out parameters without a value${typescript ? '' : `
+ * @param {Record<string, unknown>} params The query parameters
+ * @returns {string} The query string with its leading ?, or an empty string`}
+ */
+function toQueryString(params${typescript ? ': Record<string, unknown>): string' : ')'} {
+  const search = new URLSearchParams();
+  
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      search.append(key, String(item));
+    }
+  }
+  
+  const query = search.toString();
+  return query ? \`?\${query}\` : '';
+}
 `;
 }
 
 /**
  * Creates an API endpoint for the tool
- * @param directory The directory of the Next.js app
- * @param toolName The name of the tool
+ * @param plan The plan to add the files to
+ * @param integrationDir The directory for the integration
+ * @param names The names of the tool
  * @param url The URL of the tool
  * @param toolInfo Information about the tool
+ * @param layout The project layout
+ * @param router The router to generate the endpoint for
+ * @param features The features of the project's Next.js version
  */
-async function createApiEndpoint(directory: string, toolName: string, url: string, toolInfo: any): Promise<void> {
-  console.log(chalk.blue(`Creating API endpoint for ${toolName}...`));
+async function createApiEndpoint(
+  plan: FilePlan, 
+  integrationDir: string, 
+  names: ToolNames, 
+  url: string, 
+  toolInfo: any, 
+  layout: ProjectLayout,
+  router: NextRouterInfo,
+  features: NextFeatures
+): Promise<void> {
+  console.log(chalk.blue(`Creating API endpoint for ${names.kebab}...`));
+  
+  // A GraphQL tool gets a proxy that forwards operations instead of the REST endpoint
+  if (toolInfo.graphql) {
+    const handlerPath = router.router === 'pages'
+      ? path.join(router.directory, 'api', names.kebab, `graphql${getSourceExtension(layout)}`)
+      : path.join(router.directory, 'api', names.kebab, 'graphql', `route${getSourceExtension(layout)}`);
+    const integrationImport = getImportPath(layout, handlerPath, integrationDir);
+    await plan.write(
+      handlerPath,
+      router.router === 'pages'
+        ? generatePagesGraphQLProxy(names, integrationImport, layout.typescript)
+        : generateGraphQLProxyRoute(names, integrationImport, layout.typescript)
+    );
+    
+    console.log(chalk.green(`✓ GraphQL proxy created at /api/${names.kebab}/graphql`));
+    return;
+  }
+  
+  // A tool with an API description gets an endpoint that calls one of its operations
+  const api: ApiDescription | undefined = toolInfo.api;
+  if (api) {
+    const getOperations = api.operations.filter(operation => operation.method === 'GET');
+    const operation = getOperations.find(candidate => !candidate.parameters.some(parameter => parameter.required)) || getOperations[0];
+    if (!operation) {
+      console.log(chalk.yellow(`${names.kebab} has no GET operation to call from /api/${names.kebab}; skipping the API endpoint`));
+      return;
+    }
+    
+    const types = getOperationTypeNames(api, names).get(operation.name)!;
+    if (router.router === 'pages') {
+      const handlerPath = path.join(router.directory, 'api', `${names.kebab}${getSourceExtension(layout)}`);
+      const integrationImport = getImportPath(layout, handlerPath, integrationDir);
+      await plan.write(handlerPath, generatePagesOperationHandler(names, api, operation, types.params, integrationImport, layout.typescript));
+    } else {
+      const handlerPath = path.join(router.directory, 'api', names.kebab, `route${getSourceExtension(layout)}`);
+      const integrationImport = getImportPath(layout, handlerPath, integrationDir);
+      await plan.write(handlerPath, generateOperationRouteHandler(names, api, operation, types.params, integrationImport, layout.typescript, features));
+    }
+    
+    console.log(chalk.green(`✓ API endpoint created at /api/${names.kebab}, calling ${operation.name}`));
+    return;
+  }
+  
+  if (router.router === 'pages') {
+    // Create the pages/api/<tool>.ts file
+    const handlerPath = path.join(router.directory, 'api', `${names.kebab}${getSourceExtension(layout)}`);
+    const integrationImport = getImportPath(layout, handlerPath, integrationDir);
+    await plan.write(handlerPath, generatePagesApiHandler(names, integrationImport, layout.typescript));
+  } else {
+    // Create the route.ts file
+    const handlerPath = path.join(router.directory, 'api', names.kebab, `route${getSourceExtension(layout)}`);
+    const integrationImport = getImportPath(layout, handlerPath, integrationDir);
+    await plan.write(handlerPath, generateRouteHandler(names, integrationImport, layout.typescript, features));
+  }
   
-  const apiDir = path.join(directory, 'src', 'app', 'api', toolName);
-  await fs.ensureDir(apiDir);
+  console.log(chalk.green(`✓ API endpoint created at /api/${names.kebab}`));
+}
+
+/**
+ * Generates an App Router route handler for the tool
+ * @param names The names of the tool
+ * @param integrationImport The import path of the integration library
+ * @param typescript Whether to generate TypeScript
+ * @param features The features of the project's Next.js version
+ * @returns The content for the route.ts or route.js file
+ */
+function generateRouteHandler(names: ToolNames, integrationImport: string, typescript: boolean, features: NextFeatures): string {
+  const requestParam = typescript ? 'request: NextRequest' : 'request';
+  const requestDoc = typescript ? '' : `\n * @param {import('next/server').NextRequest} request`;
   
-  // Create the route.ts file
-  await fs.writeFile(
-    path.join(apiDir, 'route.ts'),
-    `import { NextRequest, NextResponse } from 'next/server';
-import { ${toolName} } from '@/lib/integrations/${toolName}';
+  return `import { ${typescript ? 'NextRequest, ' : ''}NextResponse } from 'next/server';
+import { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';
+
+${getRouteSegmentConfig(names, features)}
 
 /**
- * GET handler for ${toolName} API
+ * GET handler for ${names.kebab} API
  */
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
     // Initialize the integration
-    await ${toolName}.initialize();
-    
-    // Get query parameters
-    const searchParams = request.nextUrl.searchParams;
-    const query = searchParams.get('query') || '';
+    await ${names.camel}.initialize();
     
-    // Make a request to the ${toolName} API
-    const data = await ${toolName}.request('endpoint', {
+    // Make a request to the ${names.kebab} API
+    const data = await ${names.camel}.request('endpoint', {
       method: 'GET',
     });
     
     return NextResponse.json({ success: true, data });
   } catch (error) {
-    console.error('Error in ${toolName} API:', error);
+    console.error('Error in ${names.kebab} API:', error);
+    ${generateErrorStatus(names)}
     return NextResponse.json(
-      { success: false, error: error instanceof Error ? error.message : String(error) },
-      { status: 500 }
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        details: ${getErrorDetails(names)},
+      },
+      { status }
     );
   }
 }
 
 /**
- * POST handler for ${toolName} API
+ * POST handler for ${names.kebab} API${requestDoc}
  */
-export async function POST(request: NextRequest) {
+export async function POST(${requestParam}) {
   try {
     // Initialize the integration
-    await ${toolName}.initialize();
+    await ${names.camel}.initialize();
     
     // Get request body
     const body = await request.json();
     
-    // Make a request to the ${toolName} API
-    const data = await ${toolName}.request('endpoint', {
+    // Make a request to the ${names.kebab} API
+    const data = await ${names.camel}.request('endpoint', {
       method: 'POST',
       body: JSON.stringify(body),
     });
     
     return NextResponse.json({ success: true, data });
   } catch (error) {
-    console.error('Error in ${toolName} API:', error);
+    console.error('Error in ${names.kebab} API:', error);
+    ${generateErrorStatus(names)}
     return NextResponse.json(
-      { success: false, error: error instanceof Error ? error.message : String(error) },
-      { status: 500 }
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        details: ${getErrorDetails(names)},
+      },
+      { status }
     );
   }
 }
-`
-  );
+`;
+}
+
+/**
+ * Generates an App Router route handler that forwards GraphQL operations to the tool
+ * @param names The names of the tool
+ * @param integrationImport The import path of the integration library
+ * @param typescript Whether to generate TypeScript
+ * @returns The content for the graphql/route.ts or route.js file
+ */
+function generateGraphQLProxyRoute(names: ToolNames, integrationImport: string, typescript: boolean): string {
+  const requestParam = typescript ? 'request: NextRequest' : 'request';
+  const requestDoc = typescript ? '' : `\n * @param {import('next/server').NextRequest} request`;
   
-  console.log(chalk.green(`✓ API endpoint created at /api/${toolName}`));
+  return `import { ${typescript ? 'NextRequest, ' : ''}NextResponse } from 'next/server';
+import { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';
+
+/**
+ * POST handler that forwards GraphQL operations to ${names.kebab}${requestDoc}
+ */
+export async function POST(${requestParam}) {
+  try {
+    const { query, variables, operationName } = await request.json();
+    
+    if (typeof query !== 'string') {
+      return NextResponse.json({ errors: [{ message: 'The request body needs a query' }] }, { status: 400 });
+    }
+    
+    // Initialize the integration
+    await ${names.camel}.initialize();
+    
+    // Pass the data and errors of the ${names.kebab} response on as they are
+    const result = await ${names.camel}.execute(query, variables, operationName);
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in ${names.kebab} GraphQL proxy:', error);
+    ${generateErrorStatus(names)}
+    return NextResponse.json(
+      { errors: [{ message: error instanceof Error ? error.message : String(error) }] },
+      { status }
+    );
+  }
+}
+`;
+}
+
+/**
+ * Generates a Pages Router API route that forwards GraphQL operations to the tool
+ * @param names The names of the tool
+ * @param integrationImport The import path of the integration library
+ * @param typescript Whether to generate TypeScript
+ * @returns The content for the pages/api/<tool>/graphql.ts or .js file
+ */
+function generatePagesGraphQLProxy(names: ToolNames, integrationImport: string, typescript: boolean): string {
+  const imports = typescript
+    ? `import type { NextApiRequest, NextApiResponse } from 'next';\nimport { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';`
+    : `import { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';`;
+  const handlerDoc = typescript
+    ? ''
+    : `\n * @param {import('next').NextApiRequest} req\n * @param {import('next').NextApiResponse} res`;
+  
+  return `${imports}
+
+/**
+ * Handler that forwards GraphQL operations to ${names.kebab}${handlerDoc}
+ */
+export default async function handler(${typescript ? 'req: NextApiRequest, res: NextApiResponse' : 'req, res'}) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ errors: [{ message: \`Method \${req.method} not allowed\` }] });
+  }
+  
+  const { query, variables, operationName } = req.body || {};
+  if (typeof query !== 'string') {
+    return res.status(400).json({ errors: [{ message: 'The request body needs a query' }] });
+  }
+  
+  try {
+    // Initialize the integration
+    await ${names.camel}.initialize();
+    
+    // Pass the data and errors of the ${names.kebab} response on as they are
+    const result = await ${names.camel}.execute(query, variables, operationName);
+    
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error in ${names.kebab} GraphQL proxy:', error);
+    ${generateErrorStatus(names)}
+    return res.status(status).json({
+      errors: [{ message: error instanceof Error ? error.message : String(error) }],
+    });
+  }
+}
+`;
+}
+
+/**
+ * Gets the error classes of the integration that route handlers answer with their own status
+ * @param names The names of the tool
+ * @returns The names of the classes, for an import
+ */
+function getErrorImports(names: ToolNames): string {
+  return `${names.pascal}ApiError, ${names.pascal}TimeoutError`;
+}
+
+/**
+ * Generates the status a route handler answers an error caught in a variable named error with
+ * @param names The names of the tool
+ * @returns The statement declaring status, indented for a catch block
+ */
+function generateErrorStatus(names: ToolNames): string {
+  return `// Error responses of ${names.kebab} keep their status, and timeouts are a gateway timeout
+    const status = error instanceof ${names.pascal}ApiError ? error.status : error instanceof ${names.pascal}TimeoutError ? 504 : 500;`;
+}
+
+/**
+ * Gets the expression of the body of an error response of the tool, passed on to the caller
+ * @param names The names of the tool
+ * @returns The expression, undefined for errors without a response
+ */
+function getErrorDetails(names: ToolNames): string {
+  return `error instanceof ${names.pascal}ApiError ? error.body : undefined`;
+}
+
+/**
+ * Gets the route segment config that makes GET handlers call the tool on every request
+ * @param names The names of the tool
+ * @param features The features of the project's Next.js version
+ * @returns The segment config exports
+ */
+function getRouteSegmentConfig(names: ToolNames, features: NextFeatures): string {
+  // Next.js 13 and 14 cache GET handlers and fetch() by default, Next.js 15 does neither
+  return features.cachedByDefault
+    ? `// Next.js ${features.major} caches GET route handlers and fetch() by default; call ${names.kebab} on every request
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;`
+    : `// Call ${names.kebab} on every request, as Next.js ${features.major} does by default
+export const dynamic = 'force-dynamic';`;
+}
+
+/**
+ * Generates a Pages Router API route for the tool
+ * @param names The names of the tool
+ * @param integrationImport The import path of the integration library
+ * @param typescript Whether to generate TypeScript
+ * @returns The content for the pages/api/<tool>.ts or .js file
+ */
+function generatePagesApiHandler(names: ToolNames, integrationImport: string, typescript: boolean): string {
+  const imports = typescript
+    ? `import type { NextApiRequest, NextApiResponse } from 'next';\nimport { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';`
+    : `import { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';`;
+  const handlerDoc = typescript
+    ? ''
+    : `\n * @param {import('next').NextApiRequest} req\n * @param {import('next').NextApiResponse} res`;
+  
+  return `${imports}
+
+/**
+ * Handler for ${names.kebab} API${handlerDoc}
+ */
+export default async function handler(${typescript ? 'req: NextApiRequest, res: NextApiResponse' : 'req, res'}) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ success: false, error: \`Method \${req.method} not allowed\` });
+  }
+  
+  try {
+    // Initialize the integration
+    await ${names.camel}.initialize();
+    
+    if (req.method === 'POST') {
+      // Make a request to the ${names.kebab} API with the request body
+      const data = await ${names.camel}.request('endpoint', {
+        method: 'POST',
+        body: JSON.stringify(req.body),
+      });
+      
+      return res.status(200).json({ success: true, data });
+    }
+    
+    // Make a request to the ${names.kebab} API
+    const data = await ${names.camel}.request('endpoint', {
+      method: 'GET',
+    });
+    
+    return res.status(200).json({ success: true, data });
+  } catch (error) {
+    console.error('Error in ${names.kebab} API:', error);
+    ${generateErrorStatus(names)}
+    return res.status(status).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      details: ${getErrorDetails(names)},
+    });
+  }
+}
+`;
+}
+
+/**
+ * Creates a route handler for each operation of the tool's API
+ * @param plan The plan to add the files to
+ * @param integrationDir The directory for the integration
+ * @param names The names of the tool
+ * @param toolInfo Information about the tool
+ * @param layout The project layout
+ * @param router The router to generate the routes for
+ * @param features The features of the project's Next.js version
+ */
+async function createOperationRoutes(
+  plan: FilePlan, 
+  integrationDir: string, 
+  names: ToolNames, 
+  toolInfo: any, 
+  layout: ProjectLayout,
+  router: NextRouterInfo,
+  features: NextFeatures
+): Promise<void> {
+  const api: ApiDescription | undefined = toolInfo.api;
+  if (!api) {
+    console.log(chalk.yellow(`No OpenAPI or Swagger description was found for ${names.kebab}; skipping the operation routes`));
+    return;
+  }
+  
+  console.log(chalk.blue(`Creating a route for each ${names.kebab} API operation...`));
+  
+  const operationTypes = getOperationTypeNames(api, names);
+  const operations = api.operations.filter(operation => ROUTE_METHODS.includes(operation.method));
+  
+  for (const operation of operations) {
+    const route = createToolNames(operation.name).kebab;
+    const types = operationTypes.get(operation.name)!;
+    
+    if (router.router === 'pages') {
+      const handlerPath = path.join(router.directory, 'api', names.kebab, `${route}${getSourceExtension(layout)}`);
+      const integrationImport = getImportPath(layout, handlerPath, integrationDir);
+      await plan.write(handlerPath, generatePagesOperationHandler(names, api, operation, types.params, integrationImport, layout.typescript));
+    } else {
+      const handlerPath = path.join(router.directory, 'api', names.kebab, route, `route${getSourceExtension(layout)}`);
+      const integrationImport = getImportPath(layout, handlerPath, integrationDir);
+      await plan.write(handlerPath, generateOperationRouteHandler(names, api, operation, types.params, integrationImport, layout.typescript, features));
+    }
+  }
+  
+  console.log(chalk.green(`✓ ${operations.length} operation routes created under /api/${names.kebab}`));
+}
+
+/**
+ * Generates an App Router route handler that calls one operation of the tool's API
+ *
+ * Parameters come from the query string and the request body is passed through as JSON.
+ * @param names The names of the tool
+ * @param api The API the operation belongs to
+ * @param operation The operation
+ * @param paramsType The type name of the operation's parameters, if it has any
+ * @param integrationImport The import path of the integration library
+ * @param typescript Whether to generate TypeScript
+ * @param features The features of the project's Next.js version
+ * @returns The content for the route.ts or route.js file
+ */
+function generateOperationRouteHandler(
+  names: ToolNames,
+  api: ApiDescription,
+  operation: ApiOperation,
+  paramsType: string | undefined,
+  integrationImport: string,
+  typescript: boolean,
+  features: NextFeatures
+): string {
+  const requestParam = typescript ? 'request: NextRequest' : 'request';
+  const requestDoc = typescript ? '' : `\n * @param {import('next/server').NextRequest} request`;
+  const typeImport = typescript && paramsType ? `\nimport type { ${paramsType} } from '${integrationImport}';` : '';
+  const required = operation.parameters.filter(parameter => parameter.required).map(parameter => parameter.name);
+  const args: string[] = [];
+  const steps: string[] = [];
+  
+  if (paramsType) {
+    steps.push('const searchParams = request.nextUrl.searchParams;');
+  }
+  if (required.length > 0) {
+    steps.push(`const missing = [${required.map(name => `'${name.replace(/['\\]/g, '\\$&')}'`).join(', ')}].filter(name => !searchParams.has(name));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { success: false, error: \`Missing parameters: \${missing.join(', ')}\` },
+        { status: 400 }
+      );
+    }`);
+  }
+  if (paramsType) {
+    steps.push(generateParamsFromQuery(api, operation, paramsType, '    ', typescript));
+    args.push('params');
+  }
+  if (operation.requestBody) {
+    steps.push(operation.requestBodyRequired
+      ? 'const body = await request.json();'
+      : `const text = await request.text();
+    const body = text ? JSON.parse(text) : undefined;`);
+    args.push('body');
+  }
+  
+  return `import { ${typescript ? 'NextRequest, ' : ''}NextResponse } from 'next/server';
+import { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';${typeImport}
+${operation.method === 'GET' ? `\n${getRouteSegmentConfig(names, features)}\n` : ''}
+/**
+ * ${describeOperation(operation)}${requestDoc}
+ */
+export async function ${operation.method}(${requestParam}) {
+  try {
+    ${[...steps, `const data = await ${names.camel}.${operation.name}(${args.join(', ')});`].join('\n    \n    ')}
+    
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error in ${names.kebab} ${operation.name}:', error);
+    ${generateErrorStatus(names)}
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        details: ${getErrorDetails(names)},
+      },
+      { status }
+    );
+  }
+}
+`;
+}
+
+/**
+ * Generates a Pages Router API route that calls one operation of the tool's API
+ * @param names The names of the tool
+ * @param api The API the operation belongs to
+ * @param operation The operation
+ * @param paramsType The type name of the operation's parameters, if it has any
+ * @param integrationImport The import path of the integration library
+ * @param typescript Whether to generate TypeScript
+ * @returns The content for the pages/api/<tool>/<operation>.ts or .js file
+ */
+function generatePagesOperationHandler(
+  names: ToolNames,
+  api: ApiDescription,
+  operation: ApiOperation,
+  paramsType: string | undefined,
+  integrationImport: string,
+  typescript: boolean
+): string {
+  const imports = typescript
+    ? `import type { NextApiRequest, NextApiResponse } from 'next';
+import { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';${paramsType ? `\nimport type { ${paramsType} } from '${integrationImport}';` : ''}`
+    : `import { ${names.camel}, ${getErrorImports(names)} } from '${integrationImport}';`;
+  const handlerDoc = typescript
+    ? ''
+    : `\n * @param {import('next').NextApiRequest} req\n * @param {import('next').NextApiResponse} res`;
+  const required = operation.parameters.filter(parameter => parameter.required).map(parameter => parameter.name);
+  const args: string[] = [];
+  const steps: string[] = [];
+  
+  if (paramsType) {
+    // Read the query string as the App Router routes do, rather than req.query, which holds strings and arrays
+    steps.push("const searchParams = new URL(req.url || '', 'http://localhost').searchParams;");
+  }
+  if (required.length > 0) {
+    steps.push(`const missing = [${required.map(name => `'${name.replace(/['\\]/g, '\\$&')}'`).join(', ')}].filter(name => !searchParams.has(name));
+  if (missing.length > 0) {
+    return res.status(400).json({ success: false, error: \`Missing parameters: \${missing.join(', ')}\` });
+  }`);
+  }
+  if (paramsType) {
+    steps.push(generateParamsFromQuery(api, operation, paramsType, '  ', typescript));
+    args.push('params');
+  }
+  if (operation.requestBody) {
+    args.push('req.body');
+  }
+  
+  return `${imports}
+
+/**
+ * ${describeOperation(operation)}${handlerDoc}
+ */
+export default async function handler(${typescript ? 'req: NextApiRequest, res: NextApiResponse' : 'req, res'}) {
+  if (req.method !== '${operation.method}') {
+    res.setHeader('Allow', ['${operation.method}']);
+    return res.status(405).json({ success: false, error: \`Method \${req.method} not allowed\` });
+  }
+  ${steps.length > 0 ? `\n  ${steps.join('\n  \n  ')}\n  ` : ''}
+  try {
+    const data = await ${names.camel}.${operation.name}(${args.join(', ')});
+    
+    return res.status(200).json({ success: true, data });
+  } catch (error) {
+    console.error('Error in ${names.kebab} ${operation.name}:', error);
+    ${generateErrorStatus(names)}
+    return res.status(status).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      details: ${getErrorDetails(names)},
+    });
+  }
+}
+`;
 }
 
 /**
  * Creates utility functions for the tool
+ * @param plan The plan to add the files to
  * @param integrationDir The directory for the integration
- * @param toolName The name of the tool
+ * @param names The names of the tool
  * @param url The URL of the tool
  * @param toolInfo Information about the tool
+ * @param layout The project layout
  */
 async function createUtilityFunctions(
+  plan: FilePlan, 
   integrationDir: string, 
-  toolName: string, 
+  names: ToolNames, 
   url: string, 
-  toolInfo: any
+  toolInfo: any,
+  layout: ProjectLayout
 ): Promise<void> {
-  console.log(chalk.blue(`Creating utility functions for ${toolName}...`));
+  console.log(chalk.blue(`Creating utility functions for ${names.kebab}...`));
+  
+  const extension = getSourceExtension(layout);
+  
+  // Create the types file, with JSDoc typedefs in JavaScript projects
+  await plan.write(
+    path.join(integrationDir, `types${extension}`),
+    layout.typescript
+      ? generateTypes(names, toolInfo.api || toolInfo.graphql)
+      : generateTypesJs(names, toolInfo.api || toolInfo.graphql)
+  );
   
-  // Create the types.ts file
-  await fs.writeFile(
-    path.join(integrationDir, 'types.ts'),
-    `/**
- * Types for ${toolName} integration
+  // Create the utils file
+  await plan.write(
+    path.join(integrationDir, `utils${extension}`),
+    layout.typescript ? generateUtils(names) : generateUtilsJs(names)
+  );
+  
+  console.log(chalk.green(`✓ Utility functions created for ${names.kebab}`));
+}
+
+/**
+ * Generates the types of the integration
+ * @param names The names of the tool
+ * @param api The OpenAPI or GraphQL API of the tool, whose schemas and operations get types
+ * @returns The content for the types.ts file
+ */
+function generateTypes(names: ToolNames, api?: ApiDescription): string {
+  return `/**
+ * Types for ${names.kebab} integration
  */
 
-export interface ${capitalizeFirstLetter(toolName)}Response {
+export interface ${names.pascal}Response {
   success: boolean;
   data?: any;
   error?: string;
 }
 
-export interface ${capitalizeFirstLetter(toolName)}RequestOptions {
+export interface ${names.pascal}RequestOptions {
   endpoint: string;
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   body?: any;
   headers?: Record<string, string>;
 }
-`
-  );
-  
-  // Create the utils.ts file
-  await fs.writeFile(
-    path.join(integrationDir, 'utils.ts'),
-    `/**
- * Utility functions for ${toolName} integration
+${api ? `\n${generateApiTypes(api, names)}` : ''}`;
+}
+
+/**
+ * Generates the JSDoc typedefs of the integration for a JavaScript project
+ * @param names The names of the tool
+ * @param api The OpenAPI or GraphQL API of the tool, whose schemas and operations get typedefs
+ * @returns The content for the types.js file
+ */
+function generateTypesJs(names: ToolNames, api?: ApiDescription): string {
+  return `/**
+ * Types for ${names.kebab} integration
+ */
+
+/**
+ * @typedef {Object} ${names.pascal}Response
+ * @property {boolean} success
+ * @property {any} [data]
+ * @property {string} [error]
+ */
+
+/**
+ * @typedef {Object} ${names.pascal}RequestOptions
+ * @property {string} endpoint
+ * @property {'GET' | 'POST' | 'PUT' | 'DELETE'} [method]
+ * @property {any} [body]
+ * @property {Record<string, string>} [headers]
+ */
+${api ? `\n${generateApiTypesJs(api, names)}` : ''}
+export {};
+`;
+}
+
+/**
+ * Generates the utility functions of the integration
+ * @param names The names of the tool
+ * @returns The content for the utils.ts file
+ */
+function generateUtils(names: ToolNames): string {
+  return `/**
+ * Utility functions for ${names.kebab} integration
  */
 
-import { ${capitalizeFirstLetter(toolName)}Integration } from './index';
+import { ${names.pascal}Integration } from './index';
 
 /**
- * Creates a new instance of the ${toolName} integration with custom configuration
+ * Creates a new instance of the ${names.kebab} integration with custom configuration
  * @param config Configuration options
  * @returns A new integration instance
  */
-export function create${capitalizeFirstLetter(toolName)}Integration(config: Parameters<typeof ${capitalizeFirstLetter(toolName)}Integration>[0] = {}) {
-  return new ${capitalizeFirstLetter(toolName)}Integration(config);
+export function create${names.pascal}Integration(config: ConstructorParameters<typeof ${names.pascal}Integration>[0] = {}) {
+  return new ${names.pascal}Integration(config);
 }
 
 /**
- * Formats data for the ${toolName} API
+ * Formats data for the ${names.kebab} API
  * @param data The data to format
  * @returns Formatted data
  */
-export function format${capitalizeFirstLetter(toolName)}Data(data: any): any {
+export function format${names.pascal}Data(data: any): any {
   // Add data formatting logic here
   return data;
 }
 
 /**
- * Parses a response from the ${toolName} API
+ * Parses a response from the ${names.kebab} API
  * @param response The response to parse
  * @returns Parsed data
  */
-export function parse${capitalizeFirstLetter(toolName)}Response(response: any): any {
+export function parse${names.pascal}Response(response: any): any {
   // Add response parsing logic here
   return response;
 }
-`
-  );
-  
-  console.log(chalk.green(`✓ Utility functions created for ${toolName}`));
+`;
+}
+
+/**
+ * Generates the utility functions of the integration for a JavaScript project
+ * @param names The names of the tool
+ * @returns The content for the utils.js file
+ */
+function generateUtilsJs(names: ToolNames): string {
+  return `/**
+ * Utility functions for ${names.kebab} integration
+ */
+
+import { ${names.pascal}Integration } from './index';
+
+/**
+ * Creates a new instance of the ${names.kebab} integration with custom configuration
+ * @param {import('./index').${names.pascal}Config} [config] Configuration options
+ * @returns {${names.pascal}Integration} A new integration instance
+ */
+export function create${names.pascal}Integration(config = {}) {
+  return new ${names.pascal}Integration(config);
+}
+
+/**
+ * Formats data for the ${names.kebab} API
+ * @param {any} data The data to format
+ * @returns {any} Formatted data
+ */
+export function format${names.pascal}Data(data) {
+  // Add data formatting logic here
+  return data;
+}
+
+/**
+ * Parses a response from the ${names.kebab} API
+ * @param {any} response The response to parse
+ * @returns {any} Parsed data
+ */
+export function parse${names.pascal}Response(response) {
+  // Add response parsing logic here
+  return response;
+}
+`;
 }
 
 /**
  * Creates UI components for the tool
- * @param directory The directory of the Next.js app
- * @param toolName The name of the tool
+ * @param plan The plan to add the files to
+ * @param integrationDir The directory for the integration
+ * @param names The names of the tool
  * @param url The URL of the tool
  * @param toolInfo Information about the tool
+ * @param profile The profile of the project
+ * @param router The router to generate the demo page for
+ * @param features The features of the project's Next.js version
  */
-async function createUiComponents(directory: string, toolName: string, url: string, toolInfo: any): Promise<void> {
-  console.log(chalk.blue(`Creating UI components for ${toolName}...`));
+async function createUiComponents(
+  plan: FilePlan, 
+  integrationDir: string, 
+  names: ToolNames, 
+  url: string, 
+  toolInfo: any, 
+  profile: NextProjectProfile,
+  router: NextRouterInfo,
+  features: NextFeatures
+): Promise<void> {
+  console.log(chalk.blue(`Creating UI components for ${names.kebab}...`));
   
-  const componentsDir = path.join(directory, 'src', 'components', toolName);
-  await fs.ensureDir(componentsDir);
+  const widgetPath = path.join(profile.sourceDir, 'components', names.kebab, `${names.pascal}Widget`);
+  const integrationImport = getImportPath(profile, widgetPath, integrationDir);
+  const graphql: GraphQLDescription | undefined = toolInfo.graphql;
   
-  // Create the main component file
-  await fs.writeFile(
-    path.join(componentsDir, `${capitalizeFirstLetter(toolName)}Widget.tsx`),
-    `'use client';
-
-import { useState, useEffect } from 'react';
-import { ${toolName} } from '@/lib/integrations/${toolName}';
-
-interface ${capitalizeFirstLetter(toolName)}WidgetProps {
+  // A GraphQL widget runs a query through the proxy, its query prop being the document
+  const exampleQuery = graphql ? graphql.exampleQuery || `query Example {\n  __typename\n}` : null;
+  const fetchData = exampleQuery
+    ? `// Run the query through the GraphQL proxy
+        const response = await fetch('/api/${names.kebab}/graphql', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query }),
+        });
+        const result = await response.json();
+        
+        if (result.errors && result.errors.length > 0) {
+          throw new Error(result.errors.map(${profile.typescript ? '(error: { message: string })' : '(/** @type {{ message: string }} */ error)'} => error.message).join('\\n'));
+        }`
+    : `// Make a request to the API
+        const response = await fetch(\`/api/${names.kebab}?query=\${encodeURIComponent(query)}\`);
+        const result = await response.json();
+        
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to fetch data');
+        }`;
+  
+  const propsType = profile.typescript
+    ? `interface ${names.pascal}WidgetProps {
   title?: string;
   className?: string;
+  query?: string;
 }
+`
+    : `/**
+ * @typedef {Object} ${names.pascal}WidgetProps
+ * @property {string} [title]
+ * @property {string} [className]
+ * @property {string} [query]
+ */
+
+/**
+ * @param {${names.pascal}WidgetProps} props
+ */`;
+  
+  // Create the main component file
+  await plan.write(
+    `${widgetPath}${getSourceExtension(profile, true)}`,
+    `'use client';
 
-export default function ${capitalizeFirstLetter(toolName)}Widget({ 
-  title = '${capitalizeFirstLetter(toolName)} Integration', 
-  className = '' 
-}: ${capitalizeFirstLetter(toolName)}WidgetProps) {
+import { useState, useEffect } from 'react';
+import { ${names.camel} } from '${integrationImport}';
+${exampleQuery ? `
+const EXAMPLE_QUERY = \`${exampleQuery}\`;
+` : ''}
+${propsType}
+export default function ${names.pascal}Widget({ 
+  title = '${names.pascal} Integration', 
+  className = '', 
+  query = ${exampleQuery ? 'EXAMPLE_QUERY' : "'example'"} 
+}${profile.typescript ? `: ${names.pascal}WidgetProps` : ''}) {
   const [loading, setLoading] = useState(true);
-  const [data, setData] = useState<any>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState${profile.typescript ? '<any>' : ''}(null);
+  const [error, setError] = useState${profile.typescript ? '<string | null>' : ''}(null);
   
   useEffect(() => {
     async function fetchData() {
@@ -485,15 +1944,9 @@ export default function ${capitalizeFirstLetter(toolName)}Widget({
         setLoading(true);
         
         // Initialize the integration
-        await ${toolName}.initialize();
-        
-        // Make a request to the API
-        const response = await fetch(\`/api/${toolName}?query=example\`);
-        const result = await response.json();
+        await ${names.camel}.initialize();
         
-        if (!result.success) {
-          throw new Error(result.error || 'Failed to fetch data');
-        }
+        ${fetchData}
         
         setData(result.data);
         setError(null);
@@ -507,36 +1960,36 @@ export default function ${capitalizeFirstLetter(toolName)}Widget({
     }
     
     fetchData();
-  }, []);
+  }, [query]);
   
   return (
-    <div className={\`p-4 border rounded-lg shadow-sm \${className}\`}>
-      <h2 className="text-xl font-semibold mb-4">{title}</h2>
+    <div ${profile.tailwind ? 'className={\`p-4 border rounded-lg shadow-sm \${className}\`}' : `className={className} style={{ ${WIDGET_STYLES.container} }}`}>
+      <h2 ${styleAttribute(profile, 'text-xl font-semibold mb-4', WIDGET_STYLES.title)}>{title}</h2>
       
       {loading && (
-        <div className="flex justify-center items-center h-32">
+        ${profile.tailwind ? `<div className="flex justify-center items-center h-32">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
-        </div>
+        </div>` : `<p style={{ ${WIDGET_STYLES.loading} }}>Loading...</p>`}
       )}
       
       {error && !loading && (
-        <div className="bg-red-50 p-4 rounded-md text-red-500">
+        <div ${styleAttribute(profile, 'bg-red-50 p-4 rounded-md text-red-500', WIDGET_STYLES.error)}>
           <p>Error: {error}</p>
         </div>
       )}
       
       {data && !loading && (
-        <div className="space-y-4">
-          <pre className="bg-gray-50 p-4 rounded-md overflow-auto text-sm">
+        <div ${styleAttribute(profile, 'space-y-4', WIDGET_STYLES.content)}>
+          <pre ${styleAttribute(profile, 'bg-gray-50 p-4 rounded-md overflow-auto text-sm', WIDGET_STYLES.data)}>
             {JSON.stringify(data, null, 2)}
           </pre>
           
-          <div className="flex justify-end">
+          <div ${styleAttribute(profile, 'flex justify-end', WIDGET_STYLES.actions)}>
             <button
-              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition"
+              ${styleAttribute(profile, 'px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition', WIDGET_STYLES.button)}
               onClick={() => window.open('${url}', '_blank')}
             >
-              Open ${capitalizeFirstLetter(toolName)}
+              Open ${names.pascal}
             </button>
           </div>
         </div>
@@ -548,124 +2001,253 @@ export default function ${capitalizeFirstLetter(toolName)}Widget({
   );
   
   // Create a demo page
-  const demoPageDir = path.join(directory, 'src', 'app', toolName);
-  await fs.ensureDir(demoPageDir);
+  if (router.router === 'pages') {
+    const pagePath = path.join(router.directory, `${names.kebab}${getSourceExtension(profile, true)}`);
+    await plan.write(pagePath, generatePagesDemoPage(names, getImportPath(profile, pagePath, widgetPath), profile));
+  } else {
+    const pagePath = path.join(router.directory, names.kebab, `page${getSourceExtension(profile, true)}`);
+    await plan.write(pagePath, generateDemoPage(names, getImportPath(profile, pagePath, widgetPath), profile, features));
+  }
   
-  await fs.writeFile(
-    path.join(demoPageDir, 'page.tsx'),
-    `import ${capitalizeFirstLetter(toolName)}Widget from '@/components/${toolName}/${capitalizeFirstLetter(toolName)}Widget';
+  console.log(chalk.green(`✓ UI components created for ${names.kebab}`));
+  console.log(chalk.green(`✓ Demo page created at /${names.kebab}`));
+}
+
+/**
+ * Generates an App Router demo page for the tool
+ * @param names The names of the tool
+ * @param widgetImport The import path of the widget component
+ * @param profile The profile of the project
+ * @param features The features of the project's Next.js version
+ * @returns The content for the page.tsx or page.jsx file
+ */
+function generateDemoPage(names: ToolNames, widgetImport: string, profile: NextProjectProfile, features: NextFeatures): string {
+  // searchParams is a Promise from Next.js 15 on
+  const searchParamsType = features.asyncRequestApis
+    ? 'Promise<{ query?: string | string[] }>'
+    : '{ query?: string | string[] }';
+  const props = profile.typescript
+    ? `{ searchParams }: { searchParams: ${searchParamsType} }`
+    : '{ searchParams }';
+  
+  return `import ${names.pascal}Widget from '${widgetImport}';
 
-export default function ${capitalizeFirstLetter(toolName)}Page() {
+export default ${features.asyncRequestApis ? 'async ' : ''}function ${names.pascal}Page(${props}) {
+  const { query } = ${features.asyncRequestApis ? 'await ' : ''}searchParams;
+  
   return (
-    <main className="container mx-auto py-8 px-4">
-      <h1 className="text-3xl font-bold mb-8">${capitalizeFirstLetter(toolName)} Integration</h1>
+    <main ${styleAttribute(profile, 'container mx-auto py-8 px-4', PAGE_STYLES.main)}>
+      <h1 ${styleAttribute(profile, 'text-3xl font-bold mb-8', PAGE_STYLES.heading)}>${names.pascal} Integration</h1>
       
-      <div className="max-w-3xl mx-auto">
-        <${capitalizeFirstLetter(toolName)}Widget />
+      <div ${styleAttribute(profile, 'max-w-3xl mx-auto', PAGE_STYLES.content)}>
+        <${names.pascal}Widget query={typeof query === 'string' ? query : undefined} />
       </div>
     </main>
   );
 }
-`
-  );
+`;
+}
+
+/**
+ * Generates a Pages Router demo page for the tool
+ * @param names The names of the tool
+ * @param widgetImport The import path of the widget component
+ * @param profile The profile of the project
+ * @returns The content for the pages/<tool>.tsx or .jsx file
+ */
+function generatePagesDemoPage(names: ToolNames, widgetImport: string, profile: NextProjectProfile): string {
+  return `import Head from 'next/head';
+import { useRouter } from 'next/router';
+import ${names.pascal}Widget from '${widgetImport}';
+
+export default function ${names.pascal}Page() {
+  const { query } = useRouter();
   
-  console.log(chalk.green(`✓ UI components created for ${toolName}`));
-  console.log(chalk.green(`✓ Demo page created at /${toolName}`));
+  return (
+    <>
+      <Head>
+        <title>${names.pascal} Integration</title>
+      </Head>
+      <main ${styleAttribute(profile, 'container mx-auto py-8 px-4', PAGE_STYLES.main)}>
+        <h1 ${styleAttribute(profile, 'text-3xl font-bold mb-8', PAGE_STYLES.heading)}>${names.pascal} Integration</h1>
+        
+        <div ${styleAttribute(profile, 'max-w-3xl mx-auto', PAGE_STYLES.content)}>
+          <${names.pascal}Widget query={typeof query.query === 'string' ? query.query : undefined} />
+        </div>
+      </main>
+    </>
+  );
+}
+`;
 }
 
 /**
  * Adds environment variables for the tool
- * @param directory The directory of the Next.js app
- * @param toolName The name of the tool
+ * @param plan The plan to add the files to
+ * @param record The integration record
+ * @param names The names of the tool
  * @param toolInfo Information about the tool
  */
-async function addEnvironmentVariables(directory: string, toolName: string, toolInfo: any): Promise<void> {
-  console.log(chalk.blue(`Adding environment variables for ${toolName}...`));
+async function addEnvironmentVariables(
+  plan: FilePlan, 
+  record: IntegrationRecord, 
+  names: ToolNames, 
+  toolInfo: any
+): Promise<void> {
+  console.log(chalk.blue(`Adding environment variables for ${names.kebab}...`));
   
   // Create or update .env.local file
-  const envPath = path.join(directory, '.env.local');
+  const envPath = path.join(plan.directory, '.env.local');
   let envContent = '';
   
   try {
-    if (await fs.pathExists(envPath)) {
-      envContent = await fs.readFile(envPath, 'utf8');
-    }
+    envContent = await plan.read(envPath) || '';
   } catch (error) {
     console.warn('Could not read existing .env.local file, creating a new one');
   }
   
-  // Add environment variables
-  const envVars = [
-    `# ${toolName.toUpperCase()} Integration`,
-    `${toolName.toUpperCase()}_API_KEY=your-api-key-here`,
-    `${toolName.toUpperCase()}_BASE_URL=${toolInfo.url}`,
-    `${toolName.toUpperCase()}_TIMEOUT=30000`,
-    ''
-  ].join('\n');
+  // Add the settings of the auth strategy, and the headers an imported API reads from the environment
+  const envLines = getEnvironmentLines(names, toolInfo.api, toolInfo.auth, toolInfo.url, false);
+  const heading = `# ${names.screaming} Integration`;
   
-  // Append to existing content if it doesn't already contain these variables
-  if (!envContent.includes(`${toolName.toUpperCase()}_API_KEY`)) {
-    envContent += '\n' + envVars;
-  }
+  // Add the variables the file does not set yet, so a changed auth strategy gets its new keys
+  const env = addMissingEnvLines(envContent, heading, envLines);
   
-  await fs.writeFile(envPath, envContent.trim() + '\n');
+  await plan.write(envPath, env.content.trim() + '\n', 'shared');
   
   // Create or update .env.example file
-  const envExamplePath = path.join(directory, '.env.example');
+  const envExamplePath = path.join(plan.directory, '.env.example');
   let envExampleContent = '';
   
   try {
-    if (await fs.pathExists(envExamplePath)) {
-      envExampleContent = await fs.readFile(envExamplePath, 'utf8');
-    }
+    envExampleContent = await plan.read(envExamplePath) || '';
   } catch (error) {
     console.warn('Could not read existing .env.example file, creating a new one');
   }
   
   // Add environment variables to example file
-  if (!envExampleContent.includes(`${toolName.toUpperCase()}_API_KEY`)) {
-    envExampleContent += '\n' + envVars;
+  const envExample = addMissingEnvLines(envExampleContent, heading, getEnvironmentLines(names, toolInfo.api, toolInfo.auth, toolInfo.url, true));
+  
+  await plan.write(envExamplePath, envExample.content.trim() + '\n', 'shared');
+  
+  // Only the variables added are the integration's; ones the app already set stay on remove
+  record.envFiles = ['.env.local', '.env.example'];
+  record.envKeys = Array.from(new Set([...env.added, ...envExample.added]));
+  record.envFileKeys = { '.env.local': env.added, '.env.example': envExample.added };
+  
+  console.log(chalk.green(`✓ Environment variables added for ${names.kebab}`));
+}
+
+/**
+ * Adds the variables an env file does not set yet to the block of the tool
+ * @param content The content of the env file
+ * @param heading The comment line the block of the tool starts with
+ * @param lines The KEY=value lines of the tool
+ * @returns The content with the missing lines at the end of the block, or in a new block at the end of the file, and the keys of the added lines
+ */
+function addMissingEnvLines(content: string, heading: string, lines: string[]): { content: string; added: string[] } {
+  const existing = content.split(/\r?\n/);
+  const keys = new Set(existing.map(line => line.replace(/^\s*export\s+/, '').split('=')[0].trim()));
+  const missing = lines.filter(line => !keys.has(line.split('=')[0]));
+  const added = missing.map(line => line.split('=')[0]);
+  
+  if (missing.length === 0) {
+    return { content, added };
+  }
+  
+  const start = existing.findIndex(line => line.trim() === heading);
+  if (start < 0) {
+    return { content: `${content}\n${[heading, ...missing].join('\n')}\n`, added };
   }
   
-  await fs.writeFile(envExamplePath, envExampleContent.trim() + '\n');
+  // The block ends at the first blank line after its heading
+  const end = existing.findIndex((line, index) => index > start && line.trim() === '');
+  existing.splice(end < 0 ? existing.length : end, 0, ...missing);
+  return { content: existing.join('\n'), added };
+}
+
+/**
+ * Gets the environment variables of an integration
+ * @param names The names of the tool
+ * @param api The API of the tool, if it has a description
+ * @param auth How the tool authenticates requests
+ * @param url The URL of the tool
+ * @param examples Whether to fill in example credentials, as .env.example does, rather than leave them empty
+ * @returns The KEY=value lines
+ */
+function getEnvironmentLines(names: ToolNames, api: ApiDescription | undefined, auth: ApiAuth, url: string, examples: boolean): string[] {
+  const headerLines = (api?.headers || [])
+    .filter(header => header.variable)
+    .map(header => `${getHeaderEnvKey(header, names)}=${header.value}`);
   
-  console.log(chalk.green(`✓ Environment variables added for ${toolName}`));
+  return [
+    ...getAuthEnvLines(auth, names, examples),
+    `${names.screaming}_BASE_URL=${api ? api.baseUrl : url}`,
+    `${names.screaming}_TIMEOUT=${DEFAULT_TIMEOUT_MS}`,
+    `${names.screaming}_MAX_RETRIES=${DEFAULT_MAX_RETRIES}`,
+    ...headerLines,
+  ];
 }
 
 /**
  * Creates a Stagehand automation file for the tool
+ * @param plan The plan to add the files to
  * @param integrationDir The directory for the integration
- * @param toolName The name of the tool
+ * @param names The names of the tool
  * @param url The URL of the tool
  * @param toolInfo Information about the tool
+ * @param layout The project layout
  */
 async function createStagehandAutomation(
+  plan: FilePlan, 
   integrationDir: string, 
-  toolName: string, 
+  names: ToolNames, 
   url: string, 
-  toolInfo: any
+  toolInfo: any,
+  layout: ProjectLayout
 ): Promise<void> {
   try {
-    console.log(chalk.blue(`Creating Stagehand automation for ${toolName}...`));
+    console.log(chalk.blue(`Creating Stagehand automation for ${names.kebab}...`));
     
-    await fs.writeFile(
-      path.join(integrationDir, 'automation.ts'),
-      `/**
- * Stagehand automation for ${toolName}
+    const automationPath = path.join(integrationDir, `automation${getSourceExtension(layout)}`);
+    const stagehandImport = getImportPath(layout, automationPath, path.join(layout.sourceDir, 'lib', 'stagehand'));
+    
+    await plan.write(
+      automationPath,
+      layout.typescript ? generateAutomation(names, url, stagehandImport) : generateAutomationJs(names, url)
+    );
+    
+    console.log(chalk.green(`✓ Stagehand automation created for ${names.kebab}`));
+  } catch (error) {
+    console.error(chalk.yellow(`Warning: Could not create Stagehand automation for ${names.kebab}:`), error);
+    console.log(chalk.yellow('Skipping Stagehand automation creation.'));
+  }
+}
+
+/**
+ * Generates the Stagehand automation of the integration
+ * @param names The names of the tool
+ * @param url The URL of the tool
+ * @param stagehandImport The import path of the Stagehand helpers
+ * @returns The content for the automation.ts file
+ */
+function generateAutomation(names: ToolNames, url: string, stagehandImport: string): string {
+  return `/**
+ * Stagehand automation for ${names.kebab}
  * URL: ${url}
  */
 
 // Import types only to avoid Stagehand initialization issues
-import type { StagehandConfig, ExtractedData } from '@/lib/stagehand';
+import type { StagehandConfig, ExtractedData } from '${stagehandImport}';
 
 /**
- * Class for automating interactions with ${toolName}
+ * Class for automating interactions with ${names.kebab}
  */
-export class ${capitalizeFirstLetter(toolName)}Automation {
+export class ${names.pascal}Automation {
   private config: any;
   
   /**
-   * Creates a new ${capitalizeFirstLetter(toolName)}Automation instance
+   * Creates a new ${names.pascal}Automation instance
    * @param config Configuration options
    */
   constructor(config: any = {}) {
@@ -679,7 +2261,7 @@ export class ${capitalizeFirstLetter(toolName)}Automation {
    * Initializes the automation
    */
   async initialize(): Promise<void> {
-    console.log('Initializing ${toolName} automation...');
+    console.log('Initializing ${names.kebab} automation...');
     // Initialization is handled dynamically at runtime
   }
   
@@ -693,7 +2275,7 @@ export class ${capitalizeFirstLetter(toolName)}Automation {
   }
   
   /**
-   * Logs in to ${toolName}
+   * Logs in to ${names.kebab}
    * @param username The username
    * @param password The password
    */
@@ -703,7 +2285,7 @@ export class ${capitalizeFirstLetter(toolName)}Automation {
   }
   
   /**
-   * Extracts data from ${toolName}
+   * Extracts data from ${names.kebab}
    * @returns The extracted data
    */
   async extractData(): Promise<any> {
@@ -711,12 +2293,12 @@ export class ${capitalizeFirstLetter(toolName)}Automation {
     // Data extraction is handled dynamically at runtime
     return {
       title: 'Mock Data',
-      description: 'This is mock data from ${toolName}',
+      description: 'This is mock data from ${names.kebab}',
     };
   }
   
   /**
-   * Performs a specific action in ${toolName}
+   * Performs a specific action in ${names.kebab}
    * @param action The action to perform
    */
   async performAction(action: string): Promise<void> {
@@ -726,150 +2308,335 @@ export class ${capitalizeFirstLetter(toolName)}Automation {
 }
 
 // Export a singleton instance
-export const ${toolName}Automation = new ${capitalizeFirstLetter(toolName)}Automation();
-`
-    );
-    
-    console.log(chalk.green(`✓ Stagehand automation created for ${toolName}`));
-  } catch (error) {
-    console.error(chalk.yellow(`Warning: Could not create Stagehand automation for ${toolName}:`), error);
-    console.log(chalk.yellow('Skipping Stagehand automation creation.'));
+export const ${names.camel}Automation = new ${names.pascal}Automation();
+`;
+}
+
+/**
+ * Generates the Stagehand automation of the integration for a JavaScript project
+ * @param names The names of the tool
+ * @param url The URL of the tool
+ * @returns The content for the automation.js file
+ */
+function generateAutomationJs(names: ToolNames, url: string): string {
+  return `/**
+ * Stagehand automation for ${names.kebab}
+ * URL: ${url}
+ */
+
+/**
+ * Class for automating interactions with ${names.kebab}
+ */
+export class ${names.pascal}Automation {
+  /**
+   * Creates a new ${names.pascal}Automation instance
+   * @param {Object} [config] Configuration options
+   */
+  constructor(config = {}) {
+    this.config = {
+      baseUrl: '${url}',
+      ...config,
+    };
+  }
+  
+  /**
+   * Initializes the automation
+   * @returns {Promise<void>}
+   */
+  async initialize() {
+    console.log('Initializing ${names.kebab} automation...');
+    // Initialization is handled dynamically at runtime
+  }
+  
+  /**
+   * Navigates to a URL
+   * @param {string} url The URL to navigate to
+   * @returns {Promise<void>}
+   */
+  async navigateTo(url) {
+    console.log(\`Navigating to \${url}...\`);
+    // Navigation is handled dynamically at runtime
+  }
+  
+  /**
+   * Logs in to ${names.kebab}
+   * @param {string} username The username
+   * @param {string} password The password
+   * @returns {Promise<void>}
+   */
+  async login(username, password) {
+    console.log(\`Logging in as \${username}...\`);
+    // Login is handled dynamically at runtime
+  }
+  
+  /**
+   * Extracts data from ${names.kebab}
+   * @returns {Promise<any>} The extracted data
+   */
+  async extractData() {
+    console.log('Extracting data...');
+    // Data extraction is handled dynamically at runtime
+    return {
+      title: 'Mock Data',
+      description: 'This is mock data from ${names.kebab}',
+    };
+  }
+  
+  /**
+   * Performs a specific action in ${names.kebab}
+   * @param {string} action The action to perform
+   * @returns {Promise<void>}
+   */
+  async performAction(action) {
+    console.log(\`Performing action: \${action}\`);
+    // Actions are handled dynamically at runtime
   }
 }
 
+// Export a singleton instance
+export const ${names.camel}Automation = new ${names.pascal}Automation();
+`;
+}
+
 /**
  * Updates the README.md file with integration information
- * @param directory The directory of the Next.js app
- * @param toolName The name of the tool
+ * @param plan The plan to add the files to
+ * @param record The integration record
+ * @param integrationDir The directory for the integration
+ * @param names The names of the tool
  * @param url The URL of the tool
  * @param toolInfo Information about the tool
+ * @param options Integration options
+ * @param layout The project layout
  */
-async function updateReadme(directory: string, toolName: string, url: string, toolInfo: any): Promise<void> {
-  console.log(chalk.blue(`Updating README.md with ${toolName} integration information...`));
+async function updateReadme(
+  plan: FilePlan, 
+  record: IntegrationRecord, 
+  integrationDir: string, 
+  names: ToolNames, 
+  url: string, 
+  toolInfo: any,
+  options: IntegrationOptions,
+  layout: ProjectLayout
+): Promise<void> {
+  console.log(chalk.blue(`Updating README.md with ${names.kebab} integration information...`));
   
-  const readmePath = path.join(directory, 'README.md');
+  const readmePath = path.join(plan.directory, 'README.md');
   let readmeContent = '';
   
   try {
-    if (await fs.pathExists(readmePath)) {
-      readmeContent = await fs.readFile(readmePath, 'utf8');
-    } else {
-      readmeContent = '# Next.js Application\n\n';
-    }
+    readmeContent = await plan.read(readmePath) || '# Next.js Application\n\n';
   } catch (error) {
     console.warn('Could not read existing README.md file, creating a new one');
     readmeContent = '# Next.js Application\n\n';
   }
   
+  const componentsDir = path.join(layout.sourceDir, 'components', names.kebab);
+  const widgetPath = path.join(componentsDir, `${names.pascal}Widget`);
+  const integrationImport = getImportPath(layout, readmePath, integrationDir);
+  const widgetImport = getImportPath(layout, readmePath, widgetPath);
+  const language = layout.typescript ? 'typescript' : 'javascript';
+  const api: ApiDescription | undefined = toolInfo.api;
+  const graphql: GraphQLDescription | undefined = toolInfo.graphql;
+  
+  const features = [
+    api ? `- Typed methods for the ${api.operations.length} operations of the ${api.format} description` : '',
+    graphql ? '- Typed `query` and `mutation` methods for the GraphQL schema' : '',
+    toolInfo.auth && toolInfo.auth.type !== 'none' ? `- Requests authenticated with ${describeAuth(toolInfo.auth)}` : '',
+    `- Timeouts, retries of idempotent requests and typed \`${names.pascal}ApiError\`, \`${names.pascal}TimeoutError\` and \`${names.pascal}ConfigError\` errors`,
+    options.createApiEndpoint && !graphql ? `- API endpoint at \`/api/${names.kebab}\`` : '',
+    options.createApiEndpoint && graphql ? `- GraphQL proxy at \`/api/${names.kebab}/graphql\`` : '',
+    api && options.createOperationRoutes ? `- A route for each operation under \`/api/${names.kebab}/\`` : '',
+    options.createUiComponents ? `- UI components in \`/${plan.relative(componentsDir)}\`` : '',
+    options.createUiComponents ? `- Demo page at \`/${names.kebab}\`` : '',
+    options.createStagehandAutomation ? '- Stagehand automation for browser interactions' : '',
+  ].filter(Boolean);
+  
   // Add integration information
   const integrationInfo = `
-## ${capitalizeFirstLetter(toolName)} Integration
+## ${names.pascal} Integration
 
-This application integrates with [${capitalizeFirstLetter(toolName)}](${url}).
+This application integrates with [${names.pascal}](${url}).
 
-### Features
+${features.length > 0 ? `### Features
 
-- API endpoint at \`/api/${toolName}\`
-- UI components in \`/src/components/${toolName}\`
-- Demo page at \`/${toolName}\`
-- Stagehand automation for browser interactions
+${features.join('\n')}
 
-### Environment Variables
+` : ''}### Environment Variables
 
 Add the following environment variables to your \`.env.local\` file:
 
 \`\`\`
-${toolName.toUpperCase()}_API_KEY=your-api-key-here
-${toolName.toUpperCase()}_BASE_URL=${url}
-${toolName.toUpperCase()}_TIMEOUT=30000
+${getEnvironmentLines(names, api, toolInfo.auth, url, true).join('\n')}
 \`\`\`
 
 ### Usage
 
 Import the integration in your code:
 
-\`\`\`typescript
-import { ${toolName} } from '@/lib/integrations/${toolName}';
+\`\`\`${language}
+import { ${names.camel} } from '${integrationImport}';
 
 // Initialize the integration
-await ${toolName}.initialize();
+await ${names.camel}.initialize();
 
-// Make a request
-const data = await ${toolName}.request('endpoint');
+${getUsage(names, api, graphql)}
 \`\`\`
-
+${options.createUiComponents ? `
 For UI components:
 
-\`\`\`typescript
-import ${capitalizeFirstLetter(toolName)}Widget from '@/components/${toolName}/${capitalizeFirstLetter(toolName)}Widget';
+\`\`\`${language}
+import ${names.pascal}Widget from '${widgetImport}';
 
 // Use in your component
-<${capitalizeFirstLetter(toolName)}Widget />
+<${names.pascal}Widget />
 \`\`\`
-`;
+` : ''}`;
   
   // Check if the integration section already exists
-  if (!readmeContent.includes(`## ${capitalizeFirstLetter(toolName)} Integration`)) {
+  if (!readmeContent.includes(`## ${names.pascal} Integration`)) {
     readmeContent += integrationInfo;
   }
   
-  await fs.writeFile(readmePath, readmeContent);
+  await plan.write(readmePath, readmeContent, 'shared');
   
-  console.log(chalk.green(`✓ README.md updated with ${toolName} integration information`));
+  record.readmeSection = `## ${names.pascal} Integration`;
+  
+  console.log(chalk.green(`✓ README.md updated with ${names.kebab} integration information`));
 }
 
 /**
- * Installs dependencies based on the tool name
- * @param directory The directory of the Next.js app
- * @param toolInfo Information about the tool
+ * Gets the README example of calling the tool
+ * @param names The names of the tool
+ * @param api The OpenAPI description of the tool, if it has one
+ * @param graphql The GraphQL API of the tool, if it has one
+ * @returns The example code
+ */
+function getUsage(names: ToolNames, api?: ApiDescription, graphql?: GraphQLDescription): string {
+  if (graphql) {
+    return `// Run a GraphQL query
+const data = await ${names.camel}.query(\`${graphql.exampleQuery || 'query Example {\n  __typename\n}'}\`);`;
+  }
+  
+  if (api && api.operations.length > 0) {
+    return getOperationUsage(api.operations[0], names);
+  }
+  
+  return `// Make a request
+const data = await ${names.camel}.request('endpoint');`;
+}
+
+/**
+ * Gets the README example of calling an operation of the tool's API
+ * @param operation The operation
+ * @param names The names of the tool
+ * @returns The example code
+ */
+function getOperationUsage(operation: ApiOperation, names: ToolNames): string {
+  // Operations imported from recorded requests are called with the recorded values
+  const example = operation.example;
+  const args = [
+    operation.parameters.length > 0 ? (example?.params ? exampleLiteral(example.params, '') : 'params') : '',
+    operation.requestBody ? (example?.body !== undefined ? exampleLiteral(example.body, '') : 'body') : '',
+  ].filter(Boolean);
+  
+  return `// Call ${describeOperation(operation)}
+const data = await ${names.camel}.${operation.name}(${args.join(', ')});`;
+}
+
+/**
+ * Writes a recorded value as a JavaScript literal, breaking objects and arrays over lines when they are long
+ * @param value The JSON value
+ * @param indent The indentation of the line the literal starts on
+ * @returns The literal
+ */
+function exampleLiteral(value: unknown, indent: string): string {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'string' ? `'${escapeString(value)}'` : String(value);
+  }
+  
+  const inner = `${indent}  `;
+  const entries = Array.isArray(value)
+    ? value.map(item => exampleLiteral(item, inner))
+    : Object.entries(value as Record<string, unknown>).map(([key, item]) =>
+      `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${escapeString(key)}'`}: ${exampleLiteral(item, inner)}`
+    );
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{ ', ' }'];
+  
+  if (entries.length === 0) {
+    return Array.isArray(value) ? '[]' : '{}';
+  }
+  
+  const line = `${open}${entries.join(', ')}${close}`;
+  return line.length <= 60 && !line.includes('\n')
+    ? line
+    : `${open.trim()}\n${entries.map(entry => `${inner}${entry},`).join('\n')}\n${indent}${close.trim()}`;
+}
+
+/**
+ * Gets the JSX attribute that styles an element, with Tailwind classes only when the project uses Tailwind CSS
+ * @param profile The profile of the project
+ * @param classes The Tailwind classes
+ * @param style The equivalent inline style properties
+ * @returns The className or style attribute
+ */
+function styleAttribute(profile: NextProjectProfile, classes: string, style: string): string {
+  return profile.tailwind ? `className="${classes}"` : `style={{ ${style} }}`;
+}
+
+/**
+ * Gets the packages a tool needs
+ * @param toolName The name of the tool
+ * @returns The packages the tool needs
+ */
+function getDependencies(toolName: string): string[] {
+  // Map of known tools to their npm packages
+  const knownTools: Record<string, string[]> = {
+    'onchainkit': ['onchainkit'],
+    'getting-started': ['onchainkit'],
+    'base': ['@base-org/sdk'],
+    'docs': ['onchainkit'],
+    'builderkits': ['onchainkit'],
+  };
+  
+  // Check if we have known dependencies for this tool
+  return knownTools[toolName] || [];
+}
+
+/**
+ * Plans the dependency installs for a tool
+ * @param plan The plan to add the install command to
+ * @param packageManager The package manager of the app
+ * @param dependencies The packages to install
+ */
+function planDependencies(plan: FilePlan, packageManager: PackageManagerTarget, dependencies: string[]): void {
+  if (dependencies.length > 0) {
+    plan.addCommand(getAddCommand(packageManager, dependencies));
+  }
+}
+
+/**
+ * Installs the planned dependencies
+ * @param packageManager The package manager of the app
+ * @param dependencies The packages to install
  */
-async function installDependencies(directory: string, toolInfo: any): Promise<void> {
+function installDependencies(packageManager: PackageManagerTarget, dependencies: string[]): void {
+  if (dependencies.length === 0) {
+    console.log(chalk.yellow('No new dependencies to install'));
+    return;
+  }
+  
   try {
-    // Get the tool name from the tool info
-    const toolName = getToolName(toolInfo.url, toolInfo);
-    
-    // Map of known tools to their npm packages
-    const knownTools: Record<string, string[]> = {
-      'onchainkit': ['onchainkit'],
-      'getting-started': ['onchainkit'],
-      'base': ['@base-org/sdk'],
-      'docs': ['onchainkit'],
-      'builderkits': ['onchainkit'],
-    };
+    console.log(chalk.blue(`Installing dependencies: ${dependencies.join(', ')}...`));
     
-    // Check if we have known dependencies for this tool
-    const dependencies = knownTools[toolName] || [];
+    // Install with the app's package manager, from the workspace root in a workspace
+    const command = getAddCommand(packageManager, dependencies);
+    console.log(chalk.gray(command));
+    runPackageManagerCommand(packageManager, command);
     
-    if (dependencies.length > 0) {
-      console.log(chalk.blue(`Installing dependencies for ${toolName}...`));
-      
-      // Use child_process.execSync to run npm install
-      const { execSync } = require('child_process');
-      
-      // Install each dependency
-      for (const dependency of dependencies) {
-        console.log(chalk.blue(`Installing ${dependency}...`));
-        execSync(`npm install ${dependency}`, { 
-          cwd: directory, 
-          stdio: 'inherit' 
-        });
-      }
-      
-      console.log(chalk.green(`✓ Dependencies installed for ${toolName}`));
-    } else {
-      console.log(chalk.yellow(`No known dependencies for ${toolName}`));
-    }
+    console.log(chalk.green('✓ Dependencies installed'));
   } catch (error) {
-    console.error(chalk.yellow('Warning: Error installing dependencies:'), error);
-    console.log(chalk.yellow('Skipping dependency installation.'));
+    throw new Error(`Failed to install dependencies: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-/**
- * Capitalizes the first letter of a string
- * @param str The string to capitalize
- * @returns The capitalized string
- */
-function capitalizeFirstLetter(str: string): string {
-  return str.charAt(0).toUpperCase() + str.slice(1);
-}
@@ -0,0 +1,75 @@
+import * as fs from 'fs-extra';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { getFileStatus, readManifest, MANIFEST_FILE } from '../utils/manifest';
+import { detectProjectLayout } from '../utils/project-layout';
+
+/**
+ * Lists the integrations installed in a Next.js application
+ * @param directory The directory of the Next.js app
+ * @returns A promise that resolves to the names of the installed integrations
+ */
+export async function listIntegrations(directory: string): Promise<string[]> {
+  const manifest = await readManifest(directory);
+  const recorded = Object.values(manifest.integrations).sort((a, b) => a.tool.localeCompare(b.tool));
+
+  // Integrations generated before the manifest existed only leave their directory behind
+  const untracked = (await findIntegrationDirectories(directory))
+    .filter(tool => !manifest.integrations[tool]);
+
+  if (recorded.length === 0 && untracked.length === 0) {
+    console.log(chalk.yellow('No integrations found'));
+    return [];
+  }
+
+  console.log(chalk.blue('Installed integrations:'));
+
+  for (const record of recorded) {
+    let modified = 0;
+    let missing = 0;
+
+    for (const file of record.files) {
+      const status = await getFileStatus(directory, file);
+      if (status === 'modified') {
+        modified++;
+      } else if (status === 'missing') {
+        missing++;
+      }
+    }
+
+    const details = [
+      `${record.files.length} files`,
+      modified > 0 ? chalk.yellow(`${modified} modified`) : '',
+      missing > 0 ? chalk.red(`${missing} missing`) : '',
+      `v${record.generatorVersion}`,
+    ].filter(Boolean).join(', ');
+
+    console.log(`  - ${record.tool} ${chalk.gray(record.source)} (${details})`);
+  }
+
+  for (const tool of untracked) {
+    console.log(`  - ${tool} ${chalk.gray(`(not recorded in ${MANIFEST_FILE})`)}`);
+  }
+
+  return [...recorded.map(record => record.tool), ...untracked];
+}
+
+/**
+ * Finds integration directories under lib/integrations in the project's source directory
+ * @param directory The directory of the Next.js app
+ * @returns A promise that resolves to the directory names
+ */
+async function findIntegrationDirectories(directory: string): Promise<string[]> {
+  const layout = await detectProjectLayout(directory);
+  const integrationsDir = path.join(layout.sourceDir, 'lib', 'integrations');
+
+  if (!await fs.pathExists(integrationsDir)) {
+    return [];
+  }
+
+  const entries = await fs.readdir(integrationsDir, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+}
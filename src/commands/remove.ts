@@ -0,0 +1,364 @@
+import * as fs from 'fs-extra';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import {
+  deleteIntegrationRecord,
+  getEnvFileKeys,
+  getFileStatus,
+  IntegrationRecord,
+  readManifest,
+  MANIFEST_FILE,
+} from '../utils/manifest';
+import { createToolNames } from '../utils/naming';
+import { getPackageManagerTarget, getRemoveCommand, runPackageManagerCommand } from '../utils/package-manager';
+import { detectProjectLayout, getSourceExtension } from '../utils/project-layout';
+
+/**
+ * Interface for remove command options
+ */
+export interface RemoveOptions {
+  yes: boolean;
+  force: boolean;
+  uninstall: boolean;
+}
+
+/**
+ * Removes a generated integration from a Next.js application
+ * @param directory The directory of the Next.js app
+ * @param toolName The name of the integrated tool
+ * @param options Remove options
+ * @returns A promise that resolves when the integration is removed
+ */
+export async function removeIntegration(directory: string, toolName: string, options: RemoveOptions): Promise<void> {
+  try {
+    const manifest = await readManifest(directory);
+    const record = manifest.integrations[toolName];
+
+    if (!record) {
+      await removeUntrackedIntegration(directory, toolName, options);
+      return;
+    }
+
+    // Sort the generated files by whether they were edited since generation
+    const unchanged: string[] = [];
+    const modified: string[] = [];
+
+    // Files of a shared workspace package may still be imported by other apps
+    const sharedFiles = record.files.filter(file => file.path.startsWith('../'));
+
+    for (const file of record.files) {
+      if (sharedFiles.includes(file)) {
+        continue;
+      }
+
+      const status = await getFileStatus(directory, file);
+      if (status === 'unchanged') {
+        unchanged.push(file.path);
+      } else if (status === 'modified') {
+        modified.push(file.path);
+      }
+    }
+
+    // Packages still used by another integration stay installed
+    const otherDependencies = new Set(
+      Object.values(manifest.integrations)
+        .filter(other => other.tool !== toolName)
+        .flatMap(other => other.dependencies)
+    );
+    const dependencies = options.uninstall
+      ? record.dependencies.filter(dependency => !otherDependencies.has(dependency))
+      : [];
+
+    // With --yes and without --force, edited files are kept without asking, and so are their neighbours
+    const keptWithoutAsking = options.yes && !options.force ? modified : [];
+    const keptNeighbours = getNeighbours(unchanged, keptWithoutAsking);
+
+    console.log(chalk.blue(`Removing the ${toolName} integration will:`));
+    for (const file of unchanged.filter(file => !keptNeighbours.includes(file))) {
+      console.log(`  - delete ${file}`);
+    }
+    for (const file of modified) {
+      if (options.force) {
+        console.log(`  - delete ${file} ${chalk.yellow('(edited since generation)')}`);
+      } else if (options.yes) {
+        console.log(`  - keep ${file} ${chalk.yellow('(edited since generation)')}`);
+      } else {
+        console.log(`  - delete ${file} ${chalk.yellow('(edited since generation, after confirming)')}`);
+      }
+    }
+    for (const file of keptNeighbours) {
+      console.log(`  - keep ${file} ${chalk.yellow('(next to an edited file)')}`);
+    }
+    for (const envFile of record.envFiles) {
+      const keys = getEnvFileKeys(record, envFile);
+      if (keys.length > 0) {
+        console.log(`  - remove ${keys.join(', ')} from ${envFile}`);
+      }
+    }
+    if (record.readmeSection) {
+      console.log(`  - remove the "${record.readmeSection}" section from README.md`);
+    }
+    if (dependencies.length > 0) {
+      console.log(`  - uninstall ${dependencies.join(', ')}`);
+    }
+    if (sharedFiles.length > 0) {
+      console.log(`  - keep the shared package in ${record.sharedPackage}/${record.tool}, which other apps may import`);
+    }
+
+    if (!options.yes && !await confirm(`Remove the ${toolName} integration?`)) {
+      console.log(chalk.yellow('Removal cancelled'));
+      return;
+    }
+
+    // Edited files are only deleted with --force or explicit confirmation
+    const toDelete = [...unchanged];
+    const kept: string[] = [];
+    for (const file of modified) {
+      if (options.force) {
+        toDelete.push(file);
+      } else if (!options.yes && await confirm(`${file} has been edited since it was generated. Delete it anyway?`)) {
+        toDelete.push(file);
+      } else {
+        console.log(chalk.yellow(`Keeping edited file ${file}`));
+        kept.push(file);
+      }
+    }
+
+    const neighbours = getNeighbours(toDelete, kept);
+    for (const file of neighbours) {
+      console.log(chalk.yellow(`Keeping ${file} next to the edited files in ${path.dirname(file)}`));
+    }
+
+    for (const file of toDelete.filter(file => !neighbours.includes(file))) {
+      const filePath = path.join(directory, file);
+      await fs.remove(filePath);
+      await removeEmptyDirectories(path.dirname(filePath), directory);
+    }
+
+    for (const envFile of record.envFiles) {
+      await removeEnvironmentVariables(path.join(directory, envFile), record, getEnvFileKeys(record, envFile));
+    }
+
+    if (record.readmeSection) {
+      await removeReadmeSection(path.join(directory, 'README.md'), record.readmeSection);
+    }
+
+    if (dependencies.length > 0) {
+      await uninstallDependencies(directory, dependencies);
+    }
+
+    await deleteIntegrationRecord(directory, toolName);
+
+    console.log(chalk.green(`✓ Removed ${toolName} integration`));
+  } catch (error) {
+    console.error(chalk.red('Error removing integration:'), error);
+    throw new Error(`Failed to remove integration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Removes an integration that is not recorded in the manifest by its conventional paths
+ * @param directory The directory of the Next.js app
+ * @param toolName The name of the integrated tool
+ * @param options Remove options
+ */
+async function removeUntrackedIntegration(directory: string, toolName: string, options: RemoveOptions): Promise<void> {
+  // Paths created by the integrate command for this tool, in the project's source directory and routers
+  const layout = await detectProjectLayout(directory);
+  const candidates = [
+    path.join(layout.sourceDir, 'lib', 'integrations', toolName),
+    path.join(layout.sourceDir, 'components', toolName),
+  ];
+  for (const router of layout.routers) {
+    if (router.router === 'pages') {
+      candidates.push(
+        path.join(router.directory, 'api', `${toolName}${getSourceExtension(layout)}`),
+        path.join(router.directory, `${toolName}${getSourceExtension(layout, true)}`)
+      );
+    } else {
+      candidates.push(
+        path.join(router.directory, 'api', toolName, `route${getSourceExtension(layout)}`),
+        path.join(router.directory, toolName, `page${getSourceExtension(layout, true)}`)
+      );
+    }
+  }
+
+  const existing: string[] = [];
+  for (const candidate of candidates) {
+    if (await fs.pathExists(candidate)) {
+      existing.push(candidate);
+    }
+  }
+
+  if (existing.length === 0) {
+    throw new Error(`No integration named "${toolName}" was found`);
+  }
+
+  // Without a manifest entry there is no way to tell whether these files were edited
+  console.log(chalk.yellow(`${toolName} is not recorded in ${MANIFEST_FILE}; edits to its files cannot be detected.`));
+  console.log(chalk.blue(`The following paths will be removed for ${toolName}:`));
+  for (const file of existing) {
+    console.log(`  - ${path.relative(directory, file)}`);
+  }
+
+  if (!options.yes && !await confirm(`Remove the ${toolName} integration?`)) {
+    console.log(chalk.yellow('Removal cancelled'));
+    return;
+  }
+
+  for (const file of existing) {
+    await fs.remove(file);
+    await removeEmptyDirectories(path.dirname(file), directory);
+  }
+
+  console.log(chalk.green(`✓ Removed ${toolName} integration`));
+}
+
+/**
+ * Finds the files that stay next to kept edited files
+ *
+ * A kept file imports its neighbours, like index.ts does './types' and './utils', so they stay too.
+ * @param files The files to delete
+ * @param kept The edited files that are kept
+ * @returns The files in the same directory as a kept file
+ */
+function getNeighbours(files: string[], kept: string[]): string[] {
+  const keptDirectories = new Set(kept.map(file => path.dirname(file)));
+  return files.filter(file => keptDirectories.has(path.dirname(file)));
+}
+
+/**
+ * Removes the variables an integration added to an env file
+ * @param envPath The path of the env file
+ * @param record The integration record
+ * @param envKeys The keys of the variables the integration added to this file
+ */
+async function removeEnvironmentVariables(envPath: string, record: IntegrationRecord, envKeys: string[]): Promise<void> {
+  if (!await fs.pathExists(envPath)) {
+    return;
+  }
+
+  // Older integrations used the tool name as the prefix, hyphens included
+  const headers = new Set([
+    `# ${createToolNames(record.tool).screaming} Integration`,
+    `# ${record.tool.toUpperCase()} Integration`,
+  ]);
+  const keys = new Set(envKeys);
+
+  const lines = (await fs.readFile(envPath, 'utf8')).split('\n');
+  const remaining = lines.filter(line => {
+    const key = line.split('=')[0].trim();
+    return !headers.has(line.trim()) && !keys.has(key);
+  });
+
+  const content = remaining.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+
+  if (content) {
+    await fs.writeFile(envPath, content + '\n');
+  } else {
+    await fs.remove(envPath);
+  }
+
+  console.log(chalk.green(`✓ Environment variables removed from ${path.basename(envPath)}`));
+}
+
+/**
+ * Removes an integration section from README.md
+ * @param readmePath The path of the README file
+ * @param heading The heading line of the section
+ */
+async function removeReadmeSection(readmePath: string, heading: string): Promise<void> {
+  if (!await fs.pathExists(readmePath)) {
+    return;
+  }
+
+  const lines = (await fs.readFile(readmePath, 'utf8')).split('\n');
+  const start = lines.findIndex(line => line.trim() === heading);
+
+  if (start < 0) {
+    return;
+  }
+
+  // The section ends at the next level-2 heading outside a code block
+  let end = lines.length;
+  let inCodeBlock = false;
+  for (let i = start + 1; i < lines.length; i++) {
+    if (lines[i].startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    } else if (!inCodeBlock && /^##\s/.test(lines[i])) {
+      end = i;
+      break;
+    }
+  }
+
+  const before = lines.slice(0, start).join('\n').replace(/\s+$/, '');
+  const after = lines.slice(end).join('\n');
+  const content = after ? `${before}\n\n${after}` : `${before}\n`;
+
+  await fs.writeFile(readmePath, content);
+
+  console.log(chalk.green('✓ README.md section removed'));
+}
+
+/**
+ * Uninstalls packages that were installed for an integration
+ * @param directory The directory of the Next.js app
+ * @param dependencies The packages to uninstall
+ * @returns A promise that resolves when the packages are uninstalled or the failure is reported
+ */
+async function uninstallDependencies(directory: string, dependencies: string[]): Promise<void> {
+  const packageManager = await getPackageManagerTarget(directory);
+  const command = getRemoveCommand(packageManager, dependencies);
+  
+  try {
+    console.log(chalk.blue(`Uninstalling ${dependencies.join(', ')}...`));
+    console.log(chalk.gray(command));
+    runPackageManagerCommand(packageManager, command);
+    console.log(chalk.green('✓ Dependencies uninstalled'));
+  } catch (error) {
+    console.error(chalk.yellow('Warning: Error uninstalling dependencies:'), error);
+    console.log(chalk.yellow(`Run \`${command}\` in ${packageManager.directory} manually.`));
+  }
+}
+
+/**
+ * Asks the user a yes/no question
+ * @param message The question to ask
+ * @returns A promise that resolves to the answer
+ */
+async function confirm(message: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    throw new Error('Removing an integration needs confirmation, but there is no terminal to ask in. Pass --yes to remove it, keeping edited files, and --force as well to delete them.');
+  }
+
+  const { confirmed } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirmed',
+      message,
+      default: false,
+    },
+  ]);
+
+  return confirmed;
+}
+
+/**
+ * Removes empty directories from a path upwards, leaving the project root untouched
+ * @param dir The directory to start from
+ * @param root The project root
+ */
+async function removeEmptyDirectories(dir: string, root: string): Promise<void> {
+  let current = path.resolve(dir);
+  const stop = path.resolve(root);
+
+  while (current !== stop && current.startsWith(stop + path.sep)) {
+    if (!await fs.pathExists(current) || (await fs.readdir(current)).length > 0) {
+      return;
+    }
+
+    await fs.remove(current);
+    current = path.dirname(current);
+  }
+}
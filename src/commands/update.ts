@@ -0,0 +1,46 @@
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { DEFAULT_INTEGRATION_OPTIONS, integrateExternalTool, isApiFileSource } from './integrate';
+import { readManifest } from '../utils/manifest';
+import { ConflictStrategy } from '../utils/conflicts';
+
+/**
+ * Interface for update command options
+ */
+export interface UpdateOptions {
+  dryRun: boolean;
+  onConflict: ConflictStrategy;
+}
+
+/**
+ * Regenerates an integration from the current templates, merging in the user's edits
+ * @param directory The directory of the Next.js app
+ * @param toolName The name of the integrated tool
+ * @param options Update options
+ * @returns A promise that resolves when the integration is updated
+ */
+export async function updateIntegration(directory: string, toolName: string, options: UpdateOptions): Promise<void> {
+  const manifest = await readManifest(directory);
+  const record = manifest.integrations[toolName];
+
+  if (!record) {
+    throw new Error(`No integration named "${toolName}" is recorded in this project`);
+  }
+
+  console.log(chalk.blue(`Updating ${toolName} (generated by v${record.generatorVersion}) from ${record.source}...`));
+
+  // Edited files are three-way merged against the content originally generated, and the
+  // update generates the same artifacts for the same router, package and auth as the original run
+  // A Postman collection or HAR file is recorded relative to the app
+  const source = isApiFileSource(record.source) ? path.resolve(directory, record.source) : record.source;
+  await integrateExternalTool(source, directory, {
+    dryRun: options.dryRun,
+    onConflict: options.onConflict,
+    update: true,
+    integrationOptions: { ...DEFAULT_INTEGRATION_OPTIONS, ...record.options },
+    router: record.router,
+    name: record.tool,
+    sharedPackage: record.sharedPackage,
+    auth: record.auth,
+  });
+}
@@ -1,12 +1,56 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
-import * as fs from 'fs-extra';
+import { Command, Option } from 'commander';
 import * as path from 'node:path';
 import chalk from 'chalk';
-import { bootstrapNextApp } from './commands/bootstrap';
-import { integrateExternalTool } from './commands/integrate';
-import { isNextJsApp } from './utils/nextjs-detector';
+import {
+  bootstrapNextApp,
+  BootstrapOptions,
+  getBootstrapDirectory,
+  getCreateNextAppCommand,
+  selectCreateNextAppSettings,
+  selectPreset,
+} from './commands/bootstrap';
+import { integrateExternalTool, IntegrateOptions } from './commands/integrate';
+import { analyzeExternalTool } from './commands/analyze';
+import { listIntegrations } from './commands/list';
+import { removeIntegration } from './commands/remove';
+import { updateIntegration, UpdateOptions } from './commands/update';
+import { describeProject, detectNextProject, PackageManager, PACKAGE_MANAGERS } from './utils/nextjs-detector';
+import { NEXT_ROUTERS, NextRouter } from './utils/project-layout';
+import { CONFLICT_STRATEGIES } from './utils/conflicts';
+import { selectWorkspaceApp } from './utils/workspaces';
+import { BUILT_IN_PRESETS, DEFAULT_PRESET } from './utils/presets';
+import { AUTH_STRATEGIES } from './utils/auth';
+
+/**
+ * Interface for the bootstrap options of the default and bootstrap commands
+ */
+interface BootstrapCommandOptions {
+  appName?: string;
+  preset?: string;
+  offline?: boolean;
+  yes?: boolean;
+  ts?: boolean;
+  js?: boolean;
+  router?: NextRouter;
+  srcDir?: boolean;
+  tailwind?: boolean;
+  eslint?: boolean;
+  turbopack?: boolean;
+  importAlias?: string;
+  packageManager?: PackageManager;
+  createNextAppVersion?: string;
+}
+
+/**
+ * Interface for the options shared by the default and integrate commands
+ */
+interface IntegrateCommandOptions extends IntegrateOptions, BootstrapCommandOptions {
+  force: boolean;
+  app?: string;
+  dir?: string;
+}
 
 // Create a new command instance
 const program = new Command();
@@ -15,53 +59,286 @@ const program = new Command();
 program
   .name('nextjs-integrator')
   .description('CLI tool to bootstrap or integrate Next.js applications with external tools')
-  .version('1.0.0');
+  .version('1.0.0')
+  .enablePositionalOptions();
+
+// Define the default command: bootstrap if needed, then integrate
+addBootstrapOptions(addIntegrateOptions(program))
+  .argument('<url>', 'URL to the external tool to integrate, or a Postman collection or HAR file describing its API')
+  .option('--dir <dir>', 'Directory to integrate into, or to bootstrap a Next.js app in (default: current directory)')
+  .action(async (url: string, options: IntegrateCommandOptions) => {
+    printBanner();
 
-// Define the main command
-program
-  .argument('<url>', 'URL to the external tool to integrate')
-  .option('-f, --force', 'Force integration even if Next.js app is not detected', false)
-  .action(async (url: string, options: { force: boolean }) => {
-    console.log(chalk.blue('Next.js Tool Integrator'));
-    console.log(chalk.gray('----------------------------'));
-    
     try {
-      // Check if a Next.js app exists in the current directory
-      const isNextJs = await isNextJsApp(process.cwd());
-      
-      if (isNextJs) {
-        console.log(chalk.green('✓ Next.js application detected'));
+      // Check if a Next.js app exists in the target directory, or the selected workspace app
+      const directory = await selectWorkspaceApp(path.resolve(options.dir || '.'), options.app);
+      const project = await detectNextProject(directory);
+
+      if (project) {
+        console.log(chalk.green(`✓ Next.js application detected (${describeProject(project)})`));
         console.log(chalk.yellow('Integrating external tool from URL:', url));
-        
+
         // Integrate the external tool into the existing Next.js app
-        await integrateExternalTool(url, process.cwd());
-        
-        console.log(chalk.green('✓ Integration complete!'));
+        await integrateExternalTool(url, directory, options);
+
+        if (!options.dryRun) {
+          console.log(chalk.green('✓ Integration complete!'));
+        }
       } else {
         if (options.force) {
           console.log(chalk.yellow('No Next.js application detected, but --force flag is set'));
           console.log(chalk.yellow('Proceeding with integration anyway...'));
-          
+
           // Integrate the external tool into the current directory
-          await integrateExternalTool(url, process.cwd());
-          
-          console.log(chalk.green('✓ Integration complete!'));
+          await integrateExternalTool(url, directory, options);
+
+          if (!options.dryRun) {
+            console.log(chalk.green('✓ Integration complete!'));
+          }
+        } else if (options.dryRun) {
+          const bootstrapOptions = getBootstrapOptions(options);
+          const appDir = await getBootstrapDirectory(directory, bootstrapOptions);
+          const settings = await selectCreateNextAppSettings(directory, { ...bootstrapOptions, yes: true });
+          const preset = await selectPreset(directory, { ...bootstrapOptions, yes: true });
+          const dependencies = [...preset.dependencies, ...preset.devDependencies];
+          console.log(chalk.yellow('No Next.js application detected'));
+          console.log(chalk.blue(`A new Next.js application would be bootstrapped in ${appDir} before integrating, with:`));
+          console.log(chalk.gray(options.offline ? '  the offline template, without installing anything' : `  ${getCreateNextAppCommand(settings)}`));
+          console.log(chalk.blue(`and the ${preset.name} preset:`));
+          console.log(chalk.gray(`  dependencies: ${dependencies.join(', ') || 'none'}`));
+          for (const file of preset.files(settings)) {
+            console.log(chalk.gray(`  ${file.path}`));
+          }
+          console.log(chalk.yellow('Pass --force to preview the integration without bootstrapping'));
         } else {
           console.log(chalk.yellow('No Next.js application detected'));
           console.log(chalk.blue('Bootstrapping a new Next.js application...'));
-          
-          // Bootstrap a new Next.js app and integrate the external tool
-          await bootstrapNextApp(process.cwd());
-          await integrateExternalTool(url, process.cwd());
-          
+
+          // Bootstrap a new Next.js app and integrate the external tool into it
+          const appDir = await bootstrapNextApp(directory, getBootstrapOptions(options));
+          await integrateExternalTool(url, appDir, options);
+
           console.log(chalk.green('✓ Next.js application created and external tool integrated!'));
         }
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      handleError(error);
+    }
+  });
+
+addIntegrateOptions(program.command('integrate'))
+  .description('Integrate an external tool into an existing Next.js application')
+  .argument('<url>', 'URL to the external tool to integrate, or a Postman collection or HAR file describing its API')
+  .action(async (url: string, options: IntegrateCommandOptions) => {
+    printBanner();
+
+    try {
+      const directory = await selectWorkspaceApp(process.cwd(), options.app);
+      const project = await detectNextProject(directory);
+
+      if (!project && !options.force) {
+        throw new Error('No Next.js application detected. Run `nextjs-integrator bootstrap` first or pass --force.');
+      }
+
+      if (project) {
+        console.log(chalk.green(`✓ Next.js application detected (${describeProject(project)})`));
+      }
+
+      await integrateExternalTool(url, directory, options);
+
+      if (!options.dryRun) {
+        console.log(chalk.green('✓ Integration complete!'));
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+addBootstrapOptions(program.command('bootstrap'))
+  .description('Bootstrap a new Next.js application without integrating a tool')
+  .argument('[dir]', 'Directory to create the Next.js app in', '.')
+  .addOption(
+    new Option('--router <router>', 'Router of the new app (default: app)')
+      .choices(NEXT_ROUTERS)
+  )
+  .action(async (dir: string, options: BootstrapCommandOptions) => {
+    printBanner();
+
+    try {
+      await bootstrapNextApp(path.resolve(dir), getBootstrapOptions(options));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+program
+  .command('analyze')
+  .description('Analyze an external tool without writing any files')
+  .argument('<url>', 'URL to the external tool to analyze')
+  .option('--browser', 'Analyze the page with Stagehand browser automation', false)
+  .option('--json', 'Print the analysis result as JSON', false)
+  .action(async (url: string, options: { browser: boolean; json: boolean }) => {
+    try {
+      await analyzeExternalTool(url, options);
+    } catch (error) {
+      handleError(error);
     }
   });
 
+program
+  .command('list')
+  .description('List the integrations installed in the current Next.js application')
+  .option('--app <app>', 'Workspace app to list, by package name or path')
+  .action(async (options: { app?: string }) => {
+    try {
+      await listIntegrations(await selectWorkspaceApp(process.cwd(), options.app));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+program
+  .command('remove')
+  .description('Remove a generated integration from the current Next.js application')
+  .argument('<tool>', 'Name of the integrated tool to remove')
+  .option('-y, --yes', 'Remove without asking for confirmation; edited files are kept', false)
+  .option('-f, --force', 'Delete files even if they were edited since generation', false)
+  .option('--uninstall', 'Uninstall the npm packages the integration installed', false)
+  .option('--app <app>', 'Workspace app to remove the integration from, by package name or path')
+  .action(async (tool: string, options: { yes: boolean; force: boolean; uninstall: boolean; app?: string }) => {
+    try {
+      await removeIntegration(await selectWorkspaceApp(process.cwd(), options.app), tool, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+program
+  .command('update')
+  .description('Regenerate an integration from the current templates, keeping your edits')
+  .argument('<tool>', 'Name of the integrated tool to update')
+  .option('--dry-run', 'Print the files, diffs and commands of the update without writing anything', false)
+  .addOption(
+    new Option('--on-conflict <strategy>', 'How to handle generated files you have edited')
+      .choices(CONFLICT_STRATEGIES)
+      .default('merge')
+  )
+  .option('--app <app>', 'Workspace app to update the integration in, by package name or path')
+  .action(async (tool: string, options: UpdateOptions & { app?: string }) => {
+    printBanner();
+
+    try {
+      await updateIntegration(await selectWorkspaceApp(process.cwd(), options.app), tool, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+/**
+ * Adds the options shared by the default and integrate commands
+ * @param command The command to add the options to
+ * @returns The command
+ */
+function addIntegrateOptions(command: Command): Command {
+  return command
+    .option('-f, --force', 'Force integration even if Next.js app is not detected', false)
+    .option('--dry-run', 'Print the files, diffs and commands of the integration without writing anything', false)
+    .addOption(
+      new Option('--on-conflict <strategy>', 'How to handle generated files that would replace existing files')
+        .choices(CONFLICT_STRATEGIES)
+        .default('prompt')
+    )
+    .option('--app <app>', 'Workspace app to integrate into, by package name or path (default: prompt at a workspace root)')
+    .option('--shared-package [dir]', 'Generate the integration library as a workspace package in <dir>/<tool> (default: packages/integrations)')
+    .option('--name <name>', 'Name of the integration, used for its files, code and environment variables')
+    .option('--auth <strategy>', `How the client authenticates: ${AUTH_STRATEGIES.join(', ')}, with an optional :header, :param or :token-url (default: detected, or bearer)`)
+    .addOption(
+      new Option('--router <router>', 'Router to generate API routes and pages for (default: detected)')
+        .choices(NEXT_ROUTERS)
+    )
+    .option('-i, --interactive', 'Choose what to generate with prompts', false)
+    .option('--no-api', 'Do not create an API endpoint')
+    .option('--no-utils', 'Do not create types and utility functions')
+    .option('--no-ui', 'Do not create UI components or a demo page')
+    .option('--no-env', 'Do not add environment variables')
+    .option('--no-automation', 'Do not create a Stagehand automation')
+    .option('--no-readme', 'Do not add a section to README.md')
+    .option('--operation-routes', 'Create a route handler for each operation of the tool\'s OpenAPI or Swagger description', false);
+}
+
+/**
+ * Adds the create-next-app options shared by the default and bootstrap commands
+ *
+ * Options come in --x/--no-x pairs without defaults, so anything not passed is prompted for.
+ * @param command The command to add the options to
+ * @returns The command
+ */
+function addBootstrapOptions(command: Command): Command {
+  return command
+    .option('--app-name <name>', 'Name of the directory a new app is created in when the target directory is not empty (default: nextjs-app)')
+    .option(
+      '--preset <name>',
+      `Stack a new app starts from: ${BUILT_IN_PRESETS.map(preset => preset.name).join(', ')} or one from nextjs-integrator.config.json (default: ${DEFAULT_PRESET})`
+    )
+    .option('--offline', 'Write a new app from the template bundled with the CLI instead of running create-next-app, and install nothing')
+    .option('-y, --yes', 'Bootstrap with the default for every choice not passed as an option instead of prompting')
+    .option('--ts', 'Bootstrap a TypeScript app (default)')
+    .addOption(new Option('--js', 'Bootstrap a JavaScript app').conflicts('ts'))
+    .option('--src-dir', 'Put the code of a new app in src/ (default)')
+    .option('--no-src-dir', 'Put the code of a new app at its root')
+    .option('--tailwind', 'Bootstrap with Tailwind CSS (default)')
+    .option('--no-tailwind', 'Bootstrap without Tailwind CSS')
+    .option('--eslint', 'Bootstrap with ESLint (default)')
+    .option('--no-eslint', 'Bootstrap without ESLint')
+    .option('--turbopack', 'Use Turbopack for next dev in a new app')
+    .option('--no-turbopack', 'Use webpack for next dev in a new app (default)')
+    .option('--import-alias <alias>', 'Import alias of a new app (default: @/*)')
+    .addOption(
+      new Option('--package-manager <manager>', 'Package manager that installs the dependencies of a new app (default: npm)')
+        .choices(PACKAGE_MANAGERS)
+    )
+    .option('--create-next-app-version <version>', 'Version of create-next-app to bootstrap with (default: latest)');
+}
+
+/**
+ * Converts the bootstrap command options into bootstrap options
+ * @param options The parsed command options
+ * @returns The bootstrap options, with choices that were not passed left undefined
+ */
+function getBootstrapOptions(options: BootstrapCommandOptions): BootstrapOptions {
+  return {
+    appName: options.appName,
+    preset: options.preset,
+    offline: options.offline,
+    yes: options.yes,
+    typescript: options.js ? false : options.ts,
+    router: options.router,
+    srcDir: options.srcDir,
+    tailwind: options.tailwind,
+    eslint: options.eslint,
+    turbopack: options.turbopack,
+    importAlias: options.importAlias,
+    packageManager: options.packageManager,
+    createNextAppVersion: options.createNextAppVersion,
+  };
+}
+
+/**
+ * Prints the CLI banner
+ */
+function printBanner(): void {
+  console.log(chalk.blue('Next.js Tool Integrator'));
+  console.log(chalk.gray('----------------------------'));
+}
+
+/**
+ * Prints an error and exits the process
+ * @param error The error to report
+ */
+function handleError(error: unknown): never {
+  console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
 // Parse command-line arguments
-program.parse(process.argv);
+program.parseAsync(process.argv);
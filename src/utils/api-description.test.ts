@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ApiDescription, createOperationNames, generateParamsFromQuery } from './api-description';
+
+const api: ApiDescription = {
+  format: 'OpenAPI 3.0.3',
+  title: 'Pet Store',
+  baseUrl: 'https://api.acme.test',
+  schemas: { Status: { type: 'string', enum: ['available', 'sold'] } },
+  operations: [
+    {
+      name: 'listPets',
+      method: 'GET',
+      path: '/pets',
+      parameters: [
+        { name: 'limit', in: 'query', required: false, schema: { type: 'integer' } },
+        { name: 'status', in: 'query', required: false, schema: { ref: 'Status' } },
+        { name: 'ids', in: 'query', required: false, schema: { type: 'array', items: { type: 'integer' } } },
+        { name: 'vaccinated', in: 'query', required: true, schema: { type: 'boolean' } },
+        { name: 'owner-name', in: 'query', required: true, schema: { type: ['string', 'null'] } },
+      ],
+      requestBody: null,
+      requestBodyRequired: false,
+      response: null,
+    },
+  ],
+};
+
+test('reads query parameters as the types of their schemas', () => {
+  assert.equal(generateParamsFromQuery(api, api.operations[0], 'ListPetsParams', '  ', true), `const params: ListPetsParams = {
+    limit: searchParams.has('limit') ? Number(searchParams.get('limit')) : undefined,
+    status: searchParams.has('status') ? String(searchParams.get('status')) as ListPetsParams['status'] : undefined,
+    ids: searchParams.has('ids') ? searchParams.getAll('ids').map(Number) : undefined,
+    vaccinated: searchParams.get('vaccinated') === 'true',
+    'owner-name': String(searchParams.get('owner-name')),
+  };`);
+});
+
+test('marks enum values as any in JavaScript', () => {
+  const statement = generateParamsFromQuery(api, api.operations[0], 'ListPetsParams', '', false);
+
+  assert.match(statement, /^const params = \{/);
+  assert.match(statement, /status: searchParams\.has\('status'\) \? \/\*\* @type \{any\} \*\/ \(String\(searchParams\.get\('status'\)\)\) : undefined,/);
+});
+
+test('renames operations named like a member of the integration class', () => {
+  assert.deepEqual(createOperationNames(['send', 'validate config', 'sendEmail', 'authorize', 'get access token', 'request']), [
+    'sendOperation',
+    'validateConfigOperation',
+    'sendEmail',
+    'authorizeOperation',
+    'getAccessTokenOperation',
+    'requestOperation',
+  ]);
+});
+
+test('keeps operation names that are reserved words and numbers duplicates', () => {
+  assert.deepEqual(createOperationNames(['delete', 'new', 'get /pets/{id}', 'getPetsById', '2fa']), [
+    'delete',
+    'new',
+    'getPetsById',
+    'getPetsById2',
+    'tool2fa',
+  ]);
+});
@@ -0,0 +1,712 @@
+import { createIdentifier, createToolNames, ToolNames } from './naming';
+
+/**
+ * HTTP methods an API operation can use
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+/**
+ * HTTP methods a Next.js route handler can export for an operation
+ */
+export const ROUTE_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Interface for the subset of JSON Schema the generated types are built from
+ *
+ * A ref is the type name of one of the named schemas of the API rather than a JSON pointer.
+ */
+export interface ApiSchema {
+  type?: string | string[];
+  properties?: Record<string, ApiSchema>;
+  required?: string[];
+  items?: ApiSchema;
+  additionalProperties?: boolean | ApiSchema;
+  enum?: unknown[];
+  allOf?: ApiSchema[];
+  oneOf?: ApiSchema[];
+  anyOf?: ApiSchema[];
+  nullable?: boolean;
+  description?: string;
+  ref?: string;
+}
+
+/**
+ * Interface for a path or query parameter of an operation
+ */
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: ApiSchema;
+  description?: string;
+}
+
+/**
+ * Interface for an operation of an API, generated as one method of the integration
+ */
+export interface ApiOperation {
+  name: string;
+  method: HttpMethod;
+  path: string;
+  summary?: string;
+  parameters: ApiParameter[];
+  requestBody: ApiSchema | null;
+  requestBodyRequired: boolean;
+  response: ApiSchema | null;
+  example?: ApiExample;
+}
+
+/**
+ * Interface for a recorded call of an operation, used as the example of calling its method
+ */
+export interface ApiExample {
+  params?: Record<string, unknown>;
+  body?: unknown;
+}
+
+/**
+ * Interface for how requests to an API are authenticated
+ *
+ * The name is the header or query parameter of an apiKey, or the signature header of hmac.
+ * An oauth2 API issues access tokens for client credentials at its token URL.
+ */
+export interface ApiAuth {
+  type: 'none' | 'bearer' | 'basic' | 'apiKey' | 'hmac' | 'oauth2';
+  name?: string;
+  in?: 'header' | 'query';
+  tokenUrl?: string;
+  scopes?: string[];
+}
+
+/**
+ * Interface for a header sent with every request to an API
+ *
+ * A header with a variable is read from an environment variable named after it, with the
+ * value as the default.
+ */
+export interface ApiHeader {
+  name: string;
+  value: string;
+  variable?: string;
+}
+
+/**
+ * Interface for an API described by an OpenAPI document or derived from examples
+ *
+ * Schemas are keyed by their type name; operation names are unique method names.
+ */
+export interface ApiDescription {
+  format: string;
+  title: string;
+  baseUrl: string;
+  schemas: Record<string, ApiSchema>;
+  operations: ApiOperation[];
+  auth?: ApiAuth;
+  headers?: ApiHeader[];
+}
+
+/**
+ * Interface for the type names of an operation, undefined for a part it does not have
+ */
+export interface OperationTypeNames {
+  params?: string;
+  body?: string;
+  response: string;
+}
+
+/**
+ * Members the generated integration class declares besides its operation methods
+ *
+ * The request and auth generators name their methods from this list, so operations are never
+ * named like one of them.
+ */
+export const CLIENT_MEMBERS = [
+  // The class itself
+  'constructor', 'config', 'initialize',
+  // The request methods
+  'request', 'send', 'validateConfig',
+  // The auth methods and the fields of the access token cache
+  'authorize', 'getAccessToken', 'requestAccessToken', 'accessToken', 'tokenRequest',
+] as const;
+
+/**
+ * A member the generated integration class declares besides its operation methods
+ */
+export type ClientMember = typeof CLIENT_MEMBERS[number];
+
+/**
+ * Members operation methods must not be named like
+ */
+const CLASS_MEMBERS = new Set<string>(CLIENT_MEMBERS);
+
+/**
+ * Allocates unique method names for operations
+ * @param candidates The preferred name of each operation, like an operationId or "get /pets/{id}"
+ * @returns The camelCase method names, in the same order
+ */
+export function createOperationNames(candidates: string[]): string[] {
+  const taken = new Set<string>();
+
+  return candidates.map(candidate => {
+    // Methods can be named like reserved words, so only the members of the class are avoided
+    let base = createIdentifier(candidate.replace(/\{/g, ' by ').replace(/\}/g, ' '));
+    if (CLASS_MEMBERS.has(base)) {
+      base = `${base}Operation`;
+    }
+
+    let name = base;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    taken.add(name);
+    return name;
+  });
+}
+
+/**
+ * Allocates unique PascalCase type names for named schemas
+ * @param keys The names of the schemas in the source document
+ * @returns The type name of each schema, keyed by its source name
+ */
+export function createSchemaNames(keys: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+
+  for (const key of keys) {
+    const base = createToolNames(key).pascal;
+    let name = base;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    taken.add(name);
+    names.set(key, name);
+  }
+
+  return names;
+}
+
+/**
+ * Gets the type names of every operation, avoiding the schema names and the integration's own types
+ * @param api The API
+ * @param names The names of the tool
+ * @returns The type names, keyed by operation name
+ */
+export function getOperationTypeNames(api: ApiDescription, names: ToolNames): Map<string, OperationTypeNames> {
+  const taken = new Set([
+    ...Object.keys(api.schemas),
+    `${names.pascal}Config`,
+    `${names.pascal}Integration`,
+    `${names.pascal}Response`,
+    `${names.pascal}RequestOptions`,
+  ]);
+  const allocate = (base: string): string => {
+    let name = base;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    taken.add(name);
+    return name;
+  };
+
+  const result = new Map<string, OperationTypeNames>();
+  for (const operation of api.operations) {
+    const pascal = operation.name.charAt(0).toUpperCase() + operation.name.slice(1);
+    result.set(operation.name, {
+      params: operation.parameters.length > 0 ? allocate(`${pascal}Params`) : undefined,
+      body: operation.requestBody ? allocate(`${pascal}Body`) : undefined,
+      response: allocate(`${pascal}Response`),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Lists the type names the generated methods use in their signatures
+ * @param api The API
+ * @param names The names of the tool
+ * @returns The type names
+ */
+export function getMethodTypeNames(api: ApiDescription, names: ToolNames): string[] {
+  return Array.from(getOperationTypeNames(api, names).values())
+    .flatMap(types => [types.params, types.body, types.response])
+    .filter((name): name is string => !!name);
+}
+
+/**
+ * Generates the TypeScript declarations of the schemas and operations of an API
+ * @param api The API
+ * @param names The names of the tool
+ * @returns The declarations
+ */
+export function generateApiTypes(api: ApiDescription, names: ToolNames): string {
+  const declarations: string[] = [];
+
+  for (const [name, schema] of Object.entries(api.schemas)) {
+    declarations.push(`${docComment(schema.description, '')}${declareType(name, schema)}`);
+  }
+
+  const operationTypes = getOperationTypeNames(api, names);
+  for (const operation of api.operations) {
+    const types = operationTypes.get(operation.name)!;
+    const heading = `// ${describeOperation(operation)}`;
+    const parts: string[] = [];
+
+    if (types.params) {
+      parts.push(`export interface ${types.params} ${objectType(getParamsSchema(operation), '', false)}`);
+    }
+    if (types.body && operation.requestBody) {
+      parts.push(`export type ${types.body} = ${schemaToType(operation.requestBody, '', false)};`);
+    }
+    parts.push(`export type ${types.response} = ${operation.response ? schemaToType(operation.response, '', false) : 'unknown'};`);
+
+    declarations.push(`${heading}\n${parts.join('\n\n')}`);
+  }
+
+  return declarations.join('\n\n') + '\n';
+}
+
+/**
+ * Generates the JSDoc typedefs of the schemas and operations of an API for a JavaScript project
+ * @param api The API
+ * @param names The names of the tool
+ * @returns The typedefs
+ */
+export function generateApiTypesJs(api: ApiDescription, names: ToolNames): string {
+  const typedefs: string[] = [];
+
+  for (const [name, schema] of Object.entries(api.schemas)) {
+    typedefs.push(typedef(name, schema));
+  }
+
+  const operationTypes = getOperationTypeNames(api, names);
+  for (const operation of api.operations) {
+    const types = operationTypes.get(operation.name)!;
+
+    if (types.params) {
+      typedefs.push(typedef(types.params, getParamsSchema(operation)));
+    }
+    if (types.body && operation.requestBody) {
+      typedefs.push(typedef(types.body, operation.requestBody));
+    }
+    typedefs.push(typedef(types.response, operation.response || {}));
+  }
+
+  return typedefs.join('\n\n') + '\n';
+}
+
+/**
+ * Generates one method of the integration class per operation
+ * @param api The API
+ * @param names The names of the tool
+ * @param typescript Whether to generate TypeScript
+ * @returns The methods, indented for the class body
+ */
+export function generateApiMethods(api: ApiDescription, names: ToolNames, typescript: boolean): string {
+  const operationTypes = getOperationTypeNames(api, names);
+
+  return api.operations.map(operation => {
+    const types = operationTypes.get(operation.name)!;
+    // A required body after optional parameters would make callers pass undefined for them
+    const paramsOptional = !operation.parameters.some(parameter => parameter.required)
+      && !(types.body && operation.requestBodyRequired);
+    const args: string[] = [];
+    const docs: string[] = [];
+
+    if (types.params) {
+      args.push(typescript
+        ? `params: ${types.params}${paramsOptional ? ' = {}' : ''}`
+        : `params${paramsOptional ? ' = {}' : ''}`);
+      docs.push(`   * @param {${types.params}} ${paramsOptional ? '[params]' : 'params'} Path and query parameters`);
+    }
+    if (types.body) {
+      const optional = !operation.requestBodyRequired;
+      args.push(typescript ? `body${optional ? '?' : ''}: ${types.body}` : 'body');
+      docs.push(`   * @param {${types.body}} ${optional ? '[body]' : 'body'} Request body`);
+    }
+
+    const summary = operation.summary ? `   * ${singleLine(operation.summary)}\n` : '';
+    const jsDocs = typescript ? '' : `\n${docs.join('\n')}${docs.length > 0 ? '\n' : ''}   * @returns {Promise<${types.response}>}`;
+    const signature = typescript
+      ? `async ${operation.name}(${args.join(', ')}): Promise<${types.response}>`
+      : `async ${operation.name}(${args.join(', ')})`;
+
+    return `  /**
+${summary}   * ${operation.method} ${operation.path}${jsDocs}
+   */
+  ${signature} {
+    return this.request(${getRequestPath(operation)}, {
+      method: '${operation.method}',${types.body ? '\n      body: JSON.stringify(body),' : ''}
+    });
+  }`;
+  }).join('\n  \n');
+}
+
+/**
+ * Describes an operation on one line that is safe inside a comment
+ * @param operation The operation
+ * @returns The method, path and summary, like "GET /pets/{petId}: Find a pet"
+ */
+export function describeOperation(operation: ApiOperation): string {
+  return `${operation.method} ${operation.path}${operation.summary ? `: ${singleLine(operation.summary)}` : ''}`;
+}
+
+/**
+ * Gets the environment variable a header with a variable is read from
+ * @param header The header
+ * @param names The names of the tool
+ * @returns The key, like ACME_WORKSPACE_ID
+ */
+export function getHeaderEnvKey(header: ApiHeader, names: ToolNames): string {
+  return `${names.screaming}_${createToolNames(header.variable || header.name).screaming}`;
+}
+
+/**
+ * Checks whether any operation of an API takes query parameters
+ * @param api The API
+ * @returns True if the generated client needs the query string helper
+ */
+export function usesQueryParameters(api: ApiDescription): boolean {
+  return api.operations.some(operation => operation.parameters.some(parameter => parameter.in === 'query'));
+}
+
+/**
+ * Generates the parameters of an operation read from a query string, converted to the types of their schemas
+ *
+ * Numbers and booleans are parsed and arrays take every value of a repeated parameter. Enums
+ * are cast to the type of the parameter, since the values are not checked against them.
+ * @param api The API
+ * @param operation The operation
+ * @param paramsType The type name of the operation's parameters
+ * @param indent The indentation of the statement
+ * @param typescript Whether to generate TypeScript
+ * @returns The statement declaring params, read from a URLSearchParams named searchParams
+ */
+export function generateParamsFromQuery(
+  api: ApiDescription,
+  operation: ApiOperation,
+  paramsType: string,
+  indent: string,
+  typescript: boolean
+): string {
+  const members = operation.parameters.map(parameter => {
+    const name = `'${escapeString(parameter.name)}'`;
+    const schema = resolveSchema(api, parameter.schema);
+    const array = getSchemaTypes(schema).includes('array');
+    const item = array ? resolveSchema(api, schema.items || {}) : schema;
+    const kind = getQueryValueKind(item);
+
+    let value: string;
+    if (array) {
+      value = `searchParams.getAll(${name})${kind === 'number' ? '.map(Number)' : kind === 'boolean' ? ".map(value => value === 'true')" : ''}`;
+    } else {
+      value = kind === 'number'
+        ? `Number(searchParams.get(${name}))`
+        : kind === 'boolean' ? `searchParams.get(${name}) === 'true'` : `String(searchParams.get(${name}))`;
+    }
+
+    // Enums are narrower than the parsed value, and objects cannot be read from a query string at all
+    const itemTypes = getSchemaTypes(item);
+    const narrower = !!item.enum;
+    const unrelated = kind === 'string' && itemTypes.length > 0 && !itemTypes.includes('string');
+    if (narrower || unrelated) {
+      value = typescript
+        ? `${value} as ${unrelated ? 'unknown as ' : ''}${paramsType}[${name}]`
+        : `/** @type {any} */ (${value})`;
+    }
+
+    return `${indent}  ${propertyKey(parameter.name)}: ${parameter.required ? value : `searchParams.has(${name}) ? ${value} : undefined`},`;
+  });
+
+  return `const params${typescript ? `: ${paramsType}` : ''} = {\n${members.join('\n')}\n${indent}};`;
+}
+
+/**
+ * Follows the reference of a schema to the named schema of the API
+ * @param api The API
+ * @param schema The schema
+ * @returns The named schema, or the schema itself if it is not a reference
+ */
+function resolveSchema(api: ApiDescription, schema: ApiSchema): ApiSchema {
+  let resolved = schema;
+  for (let depth = 0; resolved.ref && api.schemas[resolved.ref] && depth < 10; depth++) {
+    resolved = api.schemas[resolved.ref];
+  }
+
+  return resolved;
+}
+
+/**
+ * Gets the types a schema allows
+ * @param schema The schema
+ * @returns The types, without null
+ */
+function getSchemaTypes(schema: ApiSchema): string[] {
+  return (Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []).filter(type => type !== 'null');
+}
+
+/**
+ * Gets how a query string value is parsed for the type of a schema
+ * @param schema The resolved schema of the value
+ * @returns number or boolean to parse the value, or string to keep it
+ */
+function getQueryValueKind(schema: ApiSchema): 'number' | 'boolean' | 'string' {
+  const types = getSchemaTypes(schema);
+  if (types.includes('string') || types.length === 0) {
+    return 'string';
+  }
+  if (types.includes('integer') || types.includes('number')) {
+    return 'number';
+  }
+
+  return types.includes('boolean') ? 'boolean' : 'string';
+}
+
+/**
+ * Gets the expression that builds the request path of an operation
+ * @param operation The operation
+ * @returns A string or template literal with the path parameters encoded and the query appended
+ */
+function getRequestPath(operation: ApiOperation): string {
+  const pathParams = operation.parameters.filter(parameter => parameter.in === 'path');
+  const queryParams = operation.parameters.filter(parameter => parameter.in === 'query');
+
+  if (pathParams.length === 0 && queryParams.length === 0) {
+    return `'${escapeString(operation.path)}'`;
+  }
+
+  const path = operation.path
+    .replace(/[`\\]|\$\{/g, match => `\\${match}`)
+    .replace(/\{([^}]+)\}/g, (match, name: string) =>
+      pathParams.some(parameter => parameter.name === name)
+        ? `\${encodeURIComponent(String(params${propertyAccess(name)}))}`
+        : match
+    );
+  const query = queryParams.length > 0
+    ? `\${toQueryString({ ${queryParams.map(parameter => `${propertyKey(parameter.name)}: params${propertyAccess(parameter.name)}`).join(', ')} })}`
+    : '';
+
+  return `\`${path}${query}\``;
+}
+
+/**
+ * Builds the object schema of the path and query parameters of an operation
+ * @param operation The operation
+ * @returns The schema
+ */
+function getParamsSchema(operation: ApiOperation): ApiSchema {
+  const properties: Record<string, ApiSchema> = {};
+  for (const parameter of operation.parameters) {
+    properties[parameter.name] = { ...parameter.schema, description: parameter.description || parameter.schema.description };
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: operation.parameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+  };
+}
+
+/**
+ * Declares a named schema as an interface, or as a type alias if it is not a plain object
+ * @param name The type name
+ * @param schema The schema
+ * @returns The declaration
+ */
+function declareType(name: string, schema: ApiSchema): string {
+  if (isPlainObject(schema)) {
+    return `export interface ${name} ${objectType(schema, '', false)}`;
+  }
+
+  return `export type ${name} = ${schemaToType(schema, '', false)};`;
+}
+
+/**
+ * Declares a JSDoc typedef, with a property list for plain objects
+ * @param name The type name
+ * @param schema The schema
+ * @returns The typedef comment
+ */
+function typedef(name: string, schema: ApiSchema): string {
+  if (!isPlainObject(schema)) {
+    return `/**
+ * @typedef {${schemaToType(schema, '', true)}} ${name}
+ */`;
+  }
+
+  const required = new Set(schema.required || []);
+  const properties = Object.entries(schema.properties || {}).map(([key, property]) => {
+    const propertyName = required.has(key) ? key : `[${key}]`;
+    const description = property.description ? ` ${singleLine(property.description)}` : '';
+    return ` * @property {${schemaToType(property, '', true)}} ${propertyName}${description}`;
+  });
+
+  return `/**${schema.description ? `\n * ${singleLine(schema.description)}` : ''}
+ * @typedef {Object} ${name}
+${properties.join('\n')}
+ */`;
+}
+
+/**
+ * Checks whether a schema is an object with known properties and nothing else
+ * @param schema The schema
+ * @returns True if the schema can be declared as an interface
+ */
+function isPlainObject(schema: ApiSchema): boolean {
+  return !!schema.properties
+    && !schema.ref && !schema.enum && !schema.allOf && !schema.oneOf && !schema.anyOf
+    && !schema.nullable && (schema.type === undefined || schema.type === 'object');
+}
+
+/**
+ * Converts a schema into a TypeScript type expression
+ * @param schema The schema
+ * @param indent The indentation of the line the type starts on
+ * @param inline Whether to write object types on one line, as JSDoc needs
+ * @returns The type expression
+ */
+function schemaToType(schema: ApiSchema, indent: string, inline: boolean): string {
+  let type: string;
+
+  if (schema.ref) {
+    type = schema.ref;
+  } else if (schema.enum && schema.enum.length > 0) {
+    type = schema.enum.map(literalType).join(' | ');
+  } else if (schema.allOf && schema.allOf.length > 0) {
+    type = schema.allOf.map(member => wrapType(schemaToType(member, indent, inline))).join(' & ');
+  } else if (schema.oneOf?.length || schema.anyOf?.length) {
+    type = (schema.oneOf || schema.anyOf)!.map(member => wrapType(schemaToType(member, indent, inline))).join(' | ');
+  } else if (Array.isArray(schema.type)) {
+    type = schema.type.map(member => schemaToType({ ...schema, type: member, nullable: false }, indent, inline)).join(' | ');
+  } else {
+    switch (schema.type) {
+      case 'string':
+        type = 'string';
+        break;
+      case 'integer':
+      case 'number':
+        type = 'number';
+        break;
+      case 'boolean':
+        type = 'boolean';
+        break;
+      case 'null':
+        type = 'null';
+        break;
+      case 'array':
+        type = schema.items ? `${wrapType(schemaToType(schema.items, indent, inline))}[]` : 'unknown[]';
+        break;
+      case 'object':
+      case undefined:
+        type = schema.properties || schema.additionalProperties !== undefined || schema.type === 'object'
+          ? objectType(schema, indent, inline)
+          : 'unknown';
+        break;
+      default:
+        type = 'unknown';
+    }
+  }
+
+  return schema.nullable ? `${wrapType(type)} | null` : type;
+}
+
+/**
+ * Converts an object schema into an object type
+ * @param schema The schema
+ * @param indent The indentation of the line the type starts on
+ * @param inline Whether to write the type on one line
+ * @returns The object type
+ */
+function objectType(schema: ApiSchema, indent: string, inline: boolean): string {
+  const properties = Object.entries(schema.properties || {});
+  const additional = schema.additionalProperties;
+  const additionalType = additional === true || (additional === undefined && properties.length === 0)
+    ? 'unknown'
+    : additional ? schemaToType(additional, indent, inline) : null;
+
+  if (properties.length === 0) {
+    return `Record<string, ${additionalType || 'unknown'}>`;
+  }
+
+  const required = new Set(schema.required || []);
+  const inner = `${indent}  `;
+  const members = properties.map(([key, property]) => {
+    const member = `${propertyKey(key)}${required.has(key) ? '' : '?'}: ${schemaToType(property, inner, inline)};`;
+    return inline ? member : `${docComment(property.description, inner)}${inner}${member}`;
+  });
+
+  // Other properties may hold anything, since declared properties must fit the index signature
+  if (additionalType) {
+    members.push(inline ? '[key: string]: unknown;' : `${inner}[key: string]: unknown;`);
+  }
+
+  return inline ? `{ ${members.join(' ')} }` : `{\n${members.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Gets the literal type of an enum value
+ * @param value The value
+ * @returns The literal type
+ */
+function literalType(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${escapeString(value)}'`;
+  }
+
+  return typeof value === 'number' || typeof value === 'boolean' || value === null ? String(value) : 'unknown';
+}
+
+/**
+ * Wraps a union or intersection in parentheses so it can be used inside another type
+ * @param type The type expression
+ * @returns The wrapped type
+ */
+function wrapType(type: string): string {
+  return /[|&]/.test(type.replace(/\{[\s\S]*\}/g, '').replace(/\([^()]*\)/g, '')) ? `(${type})` : type;
+}
+
+/**
+ * Gets a property key, quoted unless it is an identifier
+ * @param key The property name
+ * @returns The key
+ */
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${escapeString(key)}'`;
+}
+
+/**
+ * Gets the property access of a parameter
+ * @param key The property name
+ * @returns The access, like .petId or ['page-size']
+ */
+function propertyAccess(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `['${escapeString(key)}']`;
+}
+
+/**
+ * Gets a one-line doc comment for a description
+ * @param description The description
+ * @param indent The indentation of the comment
+ * @returns The comment with a trailing newline, or an empty string without a description
+ */
+function docComment(description: string | undefined, indent: string): string {
+  return description ? `${indent}/** ${singleLine(description)} */\n` : '';
+}
+
+/**
+ * Collapses text onto one line that is safe inside a comment
+ * @param text The text
+ * @returns The collapsed text
+ */
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\*\//g, '*\\/').trim();
+}
+
+/**
+ * Escapes text for a single-quoted string literal
+ * @param text The text
+ * @returns The escaped text
+ */
+export function escapeString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n');
+}
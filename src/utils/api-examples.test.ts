@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findCommonHeaders, findPartialHeaders, RecordedRequest } from './api-examples';
+
+/**
+ * Creates a recorded GET request with headers
+ * @param headers The names and values of the headers
+ * @returns The request
+ */
+function request(headers: Record<string, string>): RecordedRequest {
+  return {
+    method: 'GET',
+    baseUrl: 'https://api.acme.test',
+    path: '/items',
+    pathParams: {},
+    query: [],
+    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+    responses: [],
+  };
+}
+
+const requests = [
+  request({ 'Content-Type': 'application/json', Authorization: 'Bearer {{token}}', 'X-Client': 'web', 'X-Tenant': '{{tenant}}' }),
+  request({ 'content-type': 'application/json', authorization: 'Bearer {{token}}', 'x-client': 'web', 'X-Version': '2' }),
+];
+
+test('finds the headers every request sends with the same value', () => {
+  assert.deepEqual(findCommonHeaders(requests), [{ name: 'X-Client', value: 'web' }]);
+});
+
+test('finds the headers only some requests send, leaving out credentials and standard headers', () => {
+  assert.deepEqual(findPartialHeaders(requests), [
+    { name: 'X-Tenant', value: '{{tenant}}' },
+    { name: 'X-Version', value: '2' },
+  ]);
+});
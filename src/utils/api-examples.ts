@@ -0,0 +1,489 @@
+import chalk from 'chalk';
+import {
+  ApiAuth,
+  ApiDescription,
+  ApiHeader,
+  ApiOperation,
+  ApiParameter,
+  ApiSchema,
+  createOperationNames,
+  HttpMethod,
+} from './api-description';
+import { createToolNames } from './naming';
+
+/**
+ * HTTP methods an operation can be generated for
+ */
+const HTTP_METHODS = new Set<string>(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+/**
+ * Headers that browsers, HTTP clients or the generated client set themselves
+ */
+const SKIPPED_HEADERS = /^(:.*|accept(-.*)?|connection|content-(length|type)|cookie|dnt|host|if-(none-match|modified-since)|origin|pragma|priority|referer|te|upgrade-insecure-requests|user-agent|cache-control|sec-.*|x-requested-with|x-(csrf|xsrf)-token)$/i;
+
+/**
+ * Headers that carry an API key
+ */
+const API_KEY_HEADERS = /^(x-)?(api[-_]?key|auth[-_]?token|access[-_]?token|token)$/i;
+
+/**
+ * Query parameters that carry an API key
+ */
+const API_KEY_QUERY_PARAMETERS = /^(api[-_]?key|apikey|key|access_token|token)$/i;
+
+/**
+ * Path segments that are the ID of a resource rather than part of the route
+ */
+const ID_SEGMENT_PATTERN = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,}|[a-z]+_(?=[A-Za-z]*\d)[A-Za-z0-9]{8,})$/i;
+
+/**
+ * Interface for a header or query parameter of a recorded request
+ */
+export interface RecordedField {
+  name: string;
+  value: string;
+}
+
+/**
+ * Interface for a request recorded in a Postman collection or HAR file, with its responses
+ *
+ * The path is relative to the base URL and holds {name} placeholders for its path
+ * parameters, whose example values are in pathParams. Bodies are parsed JSON, undefined
+ * when the request or response has none.
+ */
+export interface RecordedRequest {
+  name?: string;
+  method: string;
+  baseUrl: string;
+  path: string;
+  pathParams: Record<string, string>;
+  query: RecordedField[];
+  headers: RecordedField[];
+  body?: unknown;
+  responses: { status: number; body?: unknown }[];
+}
+
+/**
+ * Interface for an API derived from recorded requests, before its operations are named
+ */
+interface RecordedApi {
+  format: string;
+  title: string;
+  requests: RecordedRequest[];
+  auth?: ApiAuth;
+  headers?: ApiHeader[];
+}
+
+/**
+ * Selects the requests sent to the base URL most requests use
+ * @param requests The recorded requests
+ * @returns The requests to that base URL
+ */
+export function selectApiRequests(requests: RecordedRequest[]): RecordedRequest[] {
+  const counts = new Map<string, number>();
+  for (const request of requests) {
+    counts.set(request.baseUrl, (counts.get(request.baseUrl) || 0) + 1);
+  }
+
+  let baseUrl = '';
+  for (const [candidate, count] of counts) {
+    if (count > (counts.get(baseUrl) || 0)) {
+      baseUrl = candidate;
+    }
+  }
+
+  const selected = requests.filter(request => request.baseUrl === baseUrl);
+  if (selected.length < requests.length) {
+    console.warn(chalk.yellow(`Skipping ${requests.length - selected.length} requests to other hosts than ${baseUrl}`));
+  }
+
+  return selected;
+}
+
+/**
+ * Derives an API from recorded requests, inferring the types of its operations from the examples
+ *
+ * Requests with the same method and path are one operation. The path segments every
+ * request starts with are moved into the base URL.
+ * @param recorded The recorded requests, all to the same base URL, and what the file says about the API
+ * @returns The API
+ */
+export function createApiFromRequests(recorded: RecordedApi): ApiDescription {
+  const requests = recorded.requests;
+  const baseUrl = requests.length > 0 ? requests[0].baseUrl : '';
+  const prefix = getCommonPathPrefix(requests.map(request => request.path));
+  const groups = new Map<string, RecordedRequest[]>();
+  for (const request of requests) {
+    const key = `${request.method} ${request.path.slice(prefix.length)}`;
+    groups.set(key, [...(groups.get(key) || []), request]);
+  }
+
+  const grouped = Array.from(groups.values());
+  const operations = grouped.map(group => createOperation(group, prefix));
+  const names = createOperationNames(operations.map((operation, index) =>
+    grouped[index][0].name || `${operation.method} ${operation.path}`
+  ));
+
+  return {
+    format: recorded.format,
+    title: recorded.title,
+    baseUrl: `${baseUrl}${prefix}`.replace(/\/+$/, ''),
+    schemas: {},
+    operations: operations.map((operation, index) => ({ ...operation, name: names[index] })),
+    auth: recorded.auth,
+    headers: recorded.headers && recorded.headers.length > 0 ? recorded.headers : undefined,
+  };
+}
+
+/**
+ * Infers the schema of a value from examples of it
+ *
+ * Objects have the properties of any example, required when every example has them; values
+ * of several kinds become a union, and a null example makes the schema nullable.
+ * @param values The examples, where undefined means the value was missing
+ * @returns The schema
+ */
+export function inferSchema(values: unknown[]): ApiSchema {
+  const kinds = new Map<string, unknown[]>();
+  let nullable = false;
+
+  for (const value of values) {
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      nullable = true;
+      continue;
+    }
+
+    const kind = getValueKind(value);
+    kinds.set(kind, [...(kinds.get(kind) || []), value]);
+  }
+
+  // An integer example of a number with fractions is a number too
+  if (kinds.has('integer') && kinds.has('number')) {
+    kinds.set('number', [...kinds.get('number')!, ...kinds.get('integer')!]);
+    kinds.delete('integer');
+  }
+
+  const schemas = Array.from(kinds.entries()).map(([kind, examples]) => inferKindSchema(kind, examples));
+  if (schemas.length === 0) {
+    return {};
+  }
+
+  const schema = schemas.length === 1 ? schemas[0] : { oneOf: schemas };
+  return nullable ? { ...schema, nullable: true } : schema;
+}
+
+/**
+ * Replaces the IDs in a recorded path with {name} placeholders
+ * @param path The path of a recorded URL
+ * @returns The path template and the example value of each placeholder
+ */
+export function templatePath(path: string): { path: string; params: Record<string, string> } {
+  const params: Record<string, string> = {};
+  const segments = path.split('/').map((segment, index, all) => {
+    const value = safeDecode(segment);
+    if (!ID_SEGMENT_PATTERN.test(value)) {
+      return segment;
+    }
+
+    // The ID of /users/42 is userId
+    const collection = index > 0 ? all[index - 1] : '';
+    const base = collection && !ID_SEGMENT_PATTERN.test(collection)
+      ? `${createToolNames(collection.replace(/ies$/i, 'y').replace(/s$/i, '')).camel}Id`
+      : 'id';
+    let name = base;
+    for (let suffix = 2; params[name] !== undefined; suffix++) {
+      name = `${base}${suffix}`;
+    }
+    params[name] = value;
+    return `{${name}}`;
+  });
+
+  return { path: segments.join('/'), params };
+}
+
+/**
+ * Detects how a header sends an API key
+ * @param name The name of the header
+ * @param value The value of the header
+ * @returns The auth scheme, or null if the header is not a credential
+ */
+export function detectHeaderAuth(name: string, value: string): ApiAuth | null {
+  if (/^authorization$/i.test(name)) {
+    if (/^basic\s/i.test(value)) {
+      return { type: 'basic' };
+    }
+    // A bare key is sent as the whole header value
+    return /^(bearer|token)\s/i.test(value) ? { type: 'bearer' } : { type: 'apiKey', name, in: 'header' };
+  }
+
+  return API_KEY_HEADERS.test(name) ? { type: 'apiKey', name, in: 'header' } : null;
+}
+
+/**
+ * Checks whether a query parameter sends an API key
+ * @param name The name of the query parameter
+ * @returns True for parameters like api_key and access_token
+ */
+export function isApiKeyQueryParameter(name: string): boolean {
+  return API_KEY_QUERY_PARAMETERS.test(name);
+}
+
+/**
+ * Finds the headers every request sends with the same value, other than credentials and standard headers
+ * @param requests The recorded requests
+ * @returns The headers, with their names as first recorded
+ */
+export function findCommonHeaders(requests: RecordedRequest[]): RecordedField[] {
+  if (requests.length === 0) {
+    return [];
+  }
+
+  return requests[0].headers.filter(header =>
+    isDefaultHeaderCandidate(header)
+    && requests.every(request => request.headers.some(other =>
+      other.name.toLowerCase() === header.name.toLowerCase() && other.value === header.value
+    ))
+  );
+}
+
+/**
+ * Finds the headers some requests send that are not sent by every request with the same value, other than credentials and standard headers
+ * @param requests The recorded requests
+ * @returns The headers, each name once with its first recorded value
+ */
+export function findPartialHeaders(requests: RecordedRequest[]): RecordedField[] {
+  const common = new Set(findCommonHeaders(requests).map(header => header.name.toLowerCase()));
+  const partial = new Map<string, RecordedField>();
+
+  for (const header of requests.flatMap(request => request.headers)) {
+    const key = header.name.toLowerCase();
+    if (!common.has(key) && !partial.has(key) && isDefaultHeaderCandidate(header)) {
+      partial.set(key, header);
+    }
+  }
+
+  return Array.from(partial.values());
+}
+
+/**
+ * Parses a JSON body, leaving out bodies that are empty or not JSON
+ * @param text The body
+ * @returns The parsed body, or undefined
+ */
+export function parseJsonBody(text: string | undefined | null): unknown {
+  if (!text || !text.trim()) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a method can be generated as an operation
+ * @param method The uppercase HTTP method
+ * @returns True if the method is an HTTP method
+ */
+export function isHttpMethod(method: string): method is HttpMethod {
+  return HTTP_METHODS.has(method);
+}
+
+/**
+ * Checks whether a header could be sent with every request, being neither a credential nor a standard header
+ * @param header The header
+ * @returns True if the header could be a default header
+ */
+function isDefaultHeaderCandidate(header: RecordedField): boolean {
+  return !SKIPPED_HEADERS.test(header.name)
+    && !/^authorization$/i.test(header.name)
+    && !detectHeaderAuth(header.name, header.value);
+}
+
+/**
+ * Creates an operation from the requests recorded for it
+ * @param group The requests with the same method and path
+ * @param prefix The path prefix moved into the base URL
+ * @returns The operation without its name
+ */
+function createOperation(group: RecordedRequest[], prefix: string): Omit<ApiOperation, 'name'> {
+  const first = group[0];
+  const parameters: ApiParameter[] = [];
+
+  for (const name of Array.from(first.path.matchAll(/\{([^}]+)\}/g), match => match[1])) {
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      schema: inferParameterSchema(group.map(request => request.pathParams[name])),
+    });
+  }
+
+  // Recordings cannot tell which query parameters the API requires, so none are
+  const queryNames = Array.from(new Set(group.flatMap(request => request.query.map(field => field.name))));
+  for (const name of queryNames) {
+    parameters.push({
+      name,
+      in: 'query',
+      required: false,
+      schema: inferParameterSchema(group.map(request => request.query.find(field => field.name === name)?.value)),
+    });
+  }
+
+  const bodies = group.map(request => request.body).filter(body => body !== undefined);
+  const responses = group.flatMap(request => request.responses)
+    .filter(response => response.status >= 200 && response.status < 300 && response.body !== undefined)
+    .map(response => response.body);
+
+  // The first request is the example of calling the operation
+  const params: Record<string, unknown> = {};
+  for (const parameter of parameters) {
+    const value = parameter.in === 'path' ? first.pathParams[parameter.name] : first.query.find(field => field.name === parameter.name)?.value;
+    // A path variable without a value in the collection has no example
+    if (value !== undefined && !(parameter.in === 'path' && value === '')) {
+      params[parameter.name] = parseParameterValue(value, parameter.schema);
+    }
+  }
+
+  return {
+    method: first.method as HttpMethod,
+    path: first.path.slice(prefix.length) || '/',
+    summary: first.name,
+    parameters,
+    requestBody: bodies.length > 0 ? inferSchema(bodies) : null,
+    requestBodyRequired: bodies.length > 0 && bodies.length === group.length,
+    response: responses.length > 0 ? inferSchema(responses) : null,
+    example: {
+      params: parameters.length > 0 ? params : undefined,
+      body: bodies[0],
+    },
+  };
+}
+
+/**
+ * Infers the schema of a path or query parameter from the strings it was sent as
+ * @param values The examples, where undefined means the parameter was missing
+ * @returns An integer, number or boolean schema if every example is one, otherwise a string schema
+ */
+function inferParameterSchema(values: (string | undefined)[]): ApiSchema {
+  const present = values.filter((value): value is string => value !== undefined);
+
+  if (present.length > 0 && present.every(value => /^-?(0|[1-9]\d*)$/.test(value))) {
+    return { type: 'integer' };
+  }
+  if (present.length > 0 && present.every(value => /^-?(0|[1-9]\d*)(\.\d+)?$/.test(value))) {
+    return { type: 'number' };
+  }
+  if (present.length > 0 && present.every(value => value === 'true' || value === 'false')) {
+    return { type: 'boolean' };
+  }
+
+  return { type: 'string' };
+}
+
+/**
+ * Converts a parameter example to the type of its schema
+ * @param value The example as it was sent
+ * @param schema The schema of the parameter
+ * @returns The example value
+ */
+function parseParameterValue(value: string, schema: ApiSchema): unknown {
+  switch (schema.type) {
+    case 'integer':
+    case 'number':
+      return Number(value);
+    case 'boolean':
+      return value === 'true';
+    default:
+      return value;
+  }
+}
+
+/**
+ * Infers the schema of examples of the same kind
+ * @param kind The kind of the examples
+ * @param examples The examples
+ * @returns The schema
+ */
+function inferKindSchema(kind: string, examples: unknown[]): ApiSchema {
+  if (kind === 'array') {
+    return { type: 'array', items: inferSchema((examples as unknown[][]).flat()) };
+  }
+
+  if (kind === 'object') {
+    const objects = examples as Record<string, unknown>[];
+    const keys = Array.from(new Set(objects.flatMap(object => Object.keys(object))));
+    const properties: Record<string, ApiSchema> = {};
+    for (const key of keys) {
+      properties[key] = inferSchema(objects.map(object => object[key]));
+    }
+
+    return {
+      type: 'object',
+      properties,
+      required: keys.filter(key => objects.every(object => key in object)),
+    };
+  }
+
+  return { type: kind };
+}
+
+/**
+ * Gets the JSON Schema type of a value that is not null
+ * @param value The value
+ * @returns The type, with integer for whole numbers
+ */
+function getValueKind(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+
+  return typeof value === 'object' ? 'object' : typeof value;
+}
+
+/**
+ * Gets the path segments every path starts with, when there are several paths to compare
+ *
+ * Only the segments before the last one of each path count, so an operation keeps at
+ * least one segment of its own, and placeholders are never moved into the base URL.
+ * @param paths The paths
+ * @returns The prefix, like /api/v1, or an empty string
+ */
+function getCommonPathPrefix(paths: string[]): string {
+  if (new Set(paths).size < 2) {
+    return '';
+  }
+
+  const directories = paths.map(path => path.split('/').filter(Boolean).slice(0, -1));
+  const prefix: string[] = [];
+  for (let index = 0; directories.every(segments => index < segments.length); index++) {
+    const segment = directories[0][index];
+    if (segment.includes('{') || !directories.every(segments => segments[index] === segment)) {
+      break;
+    }
+    prefix.push(segment);
+  }
+
+  return prefix.map(segment => `/${segment}`).join('');
+}
+
+/**
+ * Decodes a URL path segment, keeping it as it is if it is not valid
+ * @param segment The segment
+ * @returns The decoded segment
+ */
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch (error) {
+    return segment;
+  }
+}
@@ -0,0 +1,398 @@
+import { ApiAuth, ClientMember, escapeString } from './api-description';
+import { ToolNames } from './naming';
+
+/**
+ * Strategies --auth accepts, some followed by a parameter like header:X-Api-Key
+ */
+export const AUTH_STRATEGIES = ['bearer', 'header', 'query', 'basic', 'hmac', 'oauth2', 'none'];
+
+/**
+ * Header an API key is sent in when none is named
+ */
+const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Query parameter an API key is sent in when none is named
+ */
+const DEFAULT_API_KEY_PARAMETER = 'api_key';
+
+/**
+ * Header an HMAC signature is sent in when none is named
+ */
+const DEFAULT_SIGNATURE_HEADER = 'X-Signature';
+
+/**
+ * Interface for a setting of the generated client that an auth strategy reads from the environment
+ *
+ * The key is appended to the SCREAMING_SNAKE_CASE name of the tool, like ACME_CLIENT_ID. Requests
+ * fail with a config error while a setting that is not optional is missing.
+ */
+export interface AuthSetting {
+  property: string;
+  key: string;
+  example: string;
+  fallback?: string;
+  optional?: boolean;
+}
+
+/**
+ * Interface for a method the integration class authenticates requests with
+ */
+interface AuthMethod {
+  name: ClientMember;
+  summary: string;
+  params: { name: string; type: string; description: string }[];
+  returns: { type: string; description: string };
+  body: string;
+}
+
+/**
+ * Selects how the generated client authenticates, from --auth or the scheme the API declares
+ *
+ * A strategy without a parameter keeps the header, query parameter or token URL the API
+ * declares for the same strategy.
+ * @param requested The --auth value, like bearer, header:X-Api-Key or oauth2:https://example.com/token
+ * @param detected The scheme of the API description or recorded requests
+ * @returns The auth scheme, a bearer token when nothing is known
+ */
+export function selectAuth(requested: string | undefined, detected: ApiAuth | undefined): ApiAuth {
+  if (!requested) {
+    return detected || { type: 'bearer' };
+  }
+
+  const separator = requested.indexOf(':');
+  const strategy = (separator === -1 ? requested : requested.slice(0, separator)).trim().toLowerCase();
+  const parameter = separator === -1 ? '' : requested.slice(separator + 1).trim();
+
+  switch (strategy) {
+    case 'bearer':
+      return { type: 'bearer' };
+    case 'basic':
+      return { type: 'basic' };
+    case 'none':
+      return { type: 'none' };
+    case 'header':
+    case 'query': {
+      const declared = detected?.type === 'apiKey' && detected.in === strategy ? detected.name : undefined;
+      const fallback = strategy === 'header' ? DEFAULT_API_KEY_HEADER : DEFAULT_API_KEY_PARAMETER;
+      return { type: 'apiKey', in: strategy, name: parameter || declared || fallback };
+    }
+    case 'hmac':
+      return { type: 'hmac', name: parameter || (detected?.type === 'hmac' && detected.name) || DEFAULT_SIGNATURE_HEADER };
+    case 'oauth2':
+      return {
+        type: 'oauth2',
+        tokenUrl: parameter || (detected?.type === 'oauth2' ? detected.tokenUrl : undefined),
+        scopes: detected?.type === 'oauth2' ? detected.scopes : undefined,
+      };
+    default:
+      throw new Error(`Unknown auth strategy "${strategy}". Use one of: ${AUTH_STRATEGIES.join(', ')}`);
+  }
+}
+
+/**
+ * Describes an auth scheme on one line
+ * @param auth The auth scheme
+ * @returns A description like "API key in the X-API-Key header"
+ */
+export function describeAuth(auth: ApiAuth): string {
+  switch (auth.type) {
+    case 'none':
+      return 'none';
+    case 'basic':
+      return 'HTTP Basic';
+    case 'apiKey':
+      return `API key in the ${auth.name} ${auth.in === 'query' ? 'query parameter' : 'header'}`;
+    case 'hmac':
+      return `HMAC-SHA256 signature in the ${auth.name || DEFAULT_SIGNATURE_HEADER} header`;
+    case 'oauth2':
+      return `OAuth 2.0 client credentials${auth.tokenUrl ? ` from ${auth.tokenUrl}` : ''}`;
+    default:
+      return 'bearer token';
+  }
+}
+
+/**
+ * Gets the settings an auth scheme reads from the environment
+ * @param auth The auth scheme
+ * @returns The settings, in the order they are written to .env files
+ */
+export function getAuthSettings(auth: ApiAuth): AuthSetting[] {
+  switch (auth.type) {
+    case 'none':
+      return [];
+    case 'basic':
+      return [
+        { property: 'username', key: 'USERNAME', example: 'your-username' },
+        { property: 'password', key: 'PASSWORD', example: 'your-password', optional: true },
+      ];
+    case 'hmac':
+      return [
+        { property: 'apiKey', key: 'API_KEY', example: 'your-api-key-here' },
+        { property: 'apiSecret', key: 'API_SECRET', example: 'your-api-secret-here' },
+      ];
+    case 'oauth2':
+      return [
+        { property: 'clientId', key: 'CLIENT_ID', example: 'your-client-id' },
+        { property: 'clientSecret', key: 'CLIENT_SECRET', example: 'your-client-secret' },
+        { property: 'tokenUrl', key: 'TOKEN_URL', example: auth.tokenUrl || 'https://example.com/oauth/token', fallback: auth.tokenUrl },
+        { property: 'scope', key: 'SCOPE', example: (auth.scopes || []).join(' '), fallback: auth.scopes?.length ? auth.scopes.join(' ') : undefined, optional: true },
+      ];
+    default:
+      return [{ property: 'apiKey', key: 'API_KEY', example: 'your-api-key-here' }];
+  }
+}
+
+/**
+ * Gets the environment variables of an auth scheme
+ *
+ * Without examples, settings with no known value are left empty, so the client reports them as
+ * missing instead of sending a placeholder.
+ * @param auth The auth scheme
+ * @param names The names of the tool
+ * @param examples Whether to use the example values, as .env.example does
+ * @returns The KEY=value lines
+ */
+export function getAuthEnvLines(auth: ApiAuth, names: ToolNames, examples: boolean): string[] {
+  return getAuthSettings(auth).map(setting => `${names.screaming}_${setting.key}=${examples ? setting.example : setting.fallback || ''}`);
+}
+
+/**
+ * Generates the config properties of an auth scheme
+ * @param auth The auth scheme
+ * @param typescript Whether to generate TypeScript interface members or JSDoc properties
+ * @returns The properties, each on a new line
+ */
+export function generateAuthConfig(auth: ApiAuth, typescript: boolean): string {
+  return getAuthSettings(auth)
+    .map(setting => typescript ? `\n  ${setting.property}?: string;` : `\n * @property {string} [${setting.property}]`)
+    .join('');
+}
+
+/**
+ * Generates the config defaults of an auth scheme, read from the environment
+ * @param auth The auth scheme
+ * @param names The names of the tool
+ * @returns The properties of the default config, each on a new line
+ */
+export function generateAuthDefaults(auth: ApiAuth, names: ToolNames): string {
+  return getAuthSettings(auth).map(setting => {
+    const fallback = setting.fallback ? ` || '${escapeString(setting.fallback)}'` : '';
+    return `\n      ${setting.property}: process.env.${names.screaming}_${setting.key}${fallback},`;
+  }).join('');
+}
+
+/**
+ * Generates the fields of the integration class an auth scheme keeps state in
+ * @param auth The auth scheme
+ * @param typescript Whether to generate TypeScript class fields or assignments in the constructor
+ * @returns The fields, each on a new line, or nothing
+ */
+export function generateAuthFields(auth: ApiAuth, typescript: boolean): string {
+  if (auth.type !== 'oauth2') {
+    return '';
+  }
+
+  return typescript
+    ? `
+  private accessToken: { value: string; expiresAt: number } | null = null;
+  private tokenRequest: Promise<string> | null = null;`
+    : `
+    /** @type {{ value: string, expiresAt: number } | null} */
+    this.accessToken = null;
+    /** @type {Promise<string> | null} */
+    this.tokenRequest = null;`;
+}
+
+/**
+ * Generates the spread of the authentication headers into the headers of a request
+ * @param auth The auth scheme
+ * @returns The spread, starting on a new line, or nothing without auth
+ */
+export function generateAuthHeaders(auth: ApiAuth): string {
+  if (auth.type === 'none') {
+    return '';
+  }
+
+  const args = auth.type === 'hmac' ? 'url, options' : auth.type === 'apiKey' && auth.in === 'query' ? 'url' : '';
+  return `\n            ...await this.authorize(${args}),`;
+}
+
+/**
+ * Generates the methods of the integration class that authenticate requests
+ * @param auth The auth scheme
+ * @param names The names of the tool
+ * @param typescript Whether to generate TypeScript
+ * @returns The methods, indented for the class body and starting with a blank line, or nothing without auth
+ */
+export function generateAuthMethods(auth: ApiAuth, names: ToolNames, typescript: boolean): string {
+  const methods = getAuthMethods(auth, names, typescript);
+  if (methods.length === 0) {
+    return '';
+  }
+
+  return methods.map(method => {
+    const params = method.params.map(param => typescript
+      ? `   * @param ${param.name} ${param.description}`
+      : `   * @param {${param.type}} ${param.name} ${param.description}`);
+    const returns = typescript
+      ? `   * @returns ${method.returns.description}`
+      : `   * @returns {Promise<${method.returns.type}>} ${method.returns.description}`;
+    const signature = typescript
+      ? `private async ${method.name}(${method.params.map(param => `${param.name}: ${param.type}`).join(', ')}): Promise<${method.returns.type}>`
+      : `async ${method.name}(${method.params.map(param => param.name).join(', ')})`;
+
+    return `
+  
+  /**
+   * ${method.summary}
+${[...params, returns].join('\n')}
+   */
+  ${signature} {
+${method.body}
+  }`;
+  }).join('');
+}
+
+/**
+ * Gets the methods an auth scheme authenticates requests with
+ * @param auth The auth scheme
+ * @param names The names of the tool
+ * @param typescript Whether to generate TypeScript
+ * @returns The methods, none without auth
+ */
+function getAuthMethods(auth: ApiAuth, names: ToolNames, typescript: boolean): AuthMethod[] {
+  const headers = { type: 'Record<string, string>', description: 'The headers' };
+
+  switch (auth.type) {
+    case 'none':
+      return [];
+    case 'basic':
+      return [{
+        name: 'authorize',
+        summary: 'Get the HTTP Basic authentication header of a request',
+        params: [],
+        returns: headers,
+        body: `    return this.config.username
+      ? { 'Authorization': \`Basic \${btoa(\`\${this.config.username}:\${this.config.password || ''}\`)}\` }
+      : {};`,
+      }];
+    case 'apiKey':
+      if (auth.in === 'query') {
+        return [{
+          name: 'authorize',
+          summary: 'Authenticate a request by adding the API key to its query',
+          params: [{ name: 'url', type: 'URL', description: 'The URL of the request' }],
+          returns: { type: 'Record<string, string>', description: 'No headers, since the key is in the URL' },
+          body: `    if (this.config.apiKey) {
+      url.searchParams.set('${escapeString(auth.name || DEFAULT_API_KEY_PARAMETER)}', this.config.apiKey);
+    }
+    return {};`,
+        }];
+      }
+      return [{
+        name: 'authorize',
+        summary: 'Get the API key header of a request',
+        params: [],
+        returns: headers,
+        body: `    return this.config.apiKey ? { '${escapeString(auth.name || DEFAULT_API_KEY_HEADER)}': this.config.apiKey } : {};`,
+      }];
+    case 'hmac':
+      return [{
+        name: 'authorize',
+        summary: 'Sign a request with HMAC-SHA256 over its timestamp, method, path, query and body',
+        params: [
+          { name: 'url', type: 'URL', description: 'The URL of the request' },
+          { name: 'options', type: 'RequestInit', description: 'The options of the request' },
+        ],
+        returns: { type: 'Record<string, string>', description: 'The API key, timestamp and signature headers' },
+        body: `    if (!this.config.apiKey || !this.config.apiSecret) {
+      return {};
+    }
+    
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = typeof options.body === 'string' ? options.body : '';
+    const payload = \`\${timestamp}\${(options.method || 'GET').toUpperCase()}\${url.pathname}\${url.search}\${body}\`;
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(this.config.apiSecret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+    
+    return {
+      'X-API-Key': this.config.apiKey,
+      'X-Timestamp': timestamp,
+      '${escapeString(auth.name || DEFAULT_SIGNATURE_HEADER)}': Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join(''),
+    };`,
+      }];
+    case 'oauth2':
+      return [
+        {
+          name: 'authorize',
+          summary: 'Get the bearer header of a request, with an access token for the client credentials',
+          params: [],
+          returns: headers,
+          body: `    return this.config.clientId ? { 'Authorization': \`Bearer \${await this.getAccessToken()}\` } : {};`,
+        },
+        {
+          name: 'getAccessToken',
+          summary: 'Get an access token, reusing the last one until shortly before it expires',
+          params: [],
+          returns: { type: 'string', description: 'The access token' },
+          body: `    if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+      return this.accessToken.value;
+    }
+    
+    // Concurrent requests share one token request
+    if (!this.tokenRequest) {
+      this.tokenRequest = this.requestAccessToken().finally(() => {
+        this.tokenRequest = null;
+      });
+    }
+    return this.tokenRequest;`,
+        },
+        {
+          name: 'requestAccessToken',
+          summary: 'Request an access token from the token endpoint with the client credentials grant',
+          params: [],
+          returns: { type: 'string', description: 'The access token' },
+          body: `    if (!this.config.tokenUrl) {
+      throw new ${names.pascal}ConfigError('${names.kebab} is not configured: set ${names.screaming}_TOKEN_URL', ['${names.screaming}_TOKEN_URL']);
+    }
+    
+    const response = await fetch(this.config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': \`Basic \${btoa(\`\${this.config.clientId}:\${this.config.clientSecret || ''}\`)}\`,
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        ...(this.config.scope ? { scope: this.config.scope } : {}),
+      }),
+    });
+    
+    if (!response.ok) {
+      throw new ${names.pascal}ApiError(\`${names.kebab} token error: \${response.status} \${response.statusText}\`, response.status, parseBody(await response.text()));
+    }
+    
+    ${typescript
+      ? 'const token = await response.json() as { access_token: string; expires_in?: number };'
+      : '/** @type {{ access_token: string, expires_in?: number }} */\n    const token = await response.json();'}
+    
+    // Refresh a minute early so the token does not expire while a request is on its way
+    this.accessToken = {
+      value: token.access_token,
+      expiresAt: Date.now() + Math.max((token.expires_in ?? 3600) - 60, 0) * 1000,
+    };
+    return token.access_token;`,
+        },
+      ];
+    default:
+      return [{
+        name: 'authorize',
+        summary: 'Get the bearer token header of a request',
+        params: [],
+        returns: headers,
+        body: `    return this.config.apiKey ? { 'Authorization': \`Bearer \${this.config.apiKey}\` } : {};`,
+      }];
+  }
+}
@@ -0,0 +1,173 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { FilePlan, PlannedFile } from './file-plan';
+import { hashContent, IntegrationRecord, readSnapshot, recordFile } from './manifest';
+import { mergeThreeWay } from './merge';
+
+/**
+ * Ways to resolve a generated file that would replace an existing file
+ */
+export type ConflictStrategy = 'prompt' | 'skip' | 'overwrite' | 'new' | 'merge';
+
+/**
+ * Strategies accepted by --on-conflict
+ */
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ['prompt', 'skip', 'overwrite', 'new', 'merge'];
+
+/**
+ * Finds generated files that would replace content the integrator does not own
+ *
+ * A file that was generated by a previous run of the same integration and has not been
+ * edited since is not a conflict; it is safe to replace.
+ * @param plan The plan to check
+ * @param previous The manifest record of a previous run of the same integration
+ * @returns The conflicting files
+ */
+export function findConflicts(plan: FilePlan, previous?: IntegrationRecord): PlannedFile[] {
+  return plan.getFiles().filter(file => {
+    if (file.kind !== 'generated' || file.previous === null || file.previous === file.content) {
+      return false;
+    }
+
+    const recorded = previous?.files.find(entry => entry.path === plan.relative(file.path));
+    return !recorded || recorded.hash !== hashContent(file.previous);
+  });
+}
+
+/**
+ * Detects conflicts before anything is written and applies a strategy to each of them
+ * @param plan The plan to resolve conflicts in
+ * @param record The record of the current run, updated to match the resolution
+ * @param previous The manifest record of a previous run of the same integration
+ * @param strategy The strategy to apply, or 'prompt' to ask for each file
+ * @param dryRun Whether this is a dry run, in which case nobody is prompted
+ */
+export async function resolveConflicts(
+  plan: FilePlan,
+  record: IntegrationRecord,
+  previous: IntegrationRecord | undefined,
+  strategy: ConflictStrategy,
+  dryRun: boolean
+): Promise<void> {
+  const conflicts = findConflicts(plan, previous);
+
+  if (conflicts.length === 0) {
+    return;
+  }
+
+  console.log(chalk.yellow(`${conflicts.length} generated file(s) would replace existing files:`));
+  for (const file of conflicts) {
+    console.log(chalk.yellow(`  - ${plan.relative(file.path)}`));
+  }
+
+  if (strategy === 'prompt') {
+    if (dryRun) {
+      console.log(chalk.yellow('You will be asked how to resolve each conflict. The diffs below show them overwritten.'));
+      return;
+    }
+
+    if (!process.stdin.isTTY) {
+      throw new Error(`Existing files would be overwritten. Pass --on-conflict <${CONFLICT_STRATEGIES.slice(1).join('|')}> to choose how to resolve them.`);
+    }
+  }
+
+  for (const file of conflicts) {
+    const relativePath = plan.relative(file.path);
+    const choice = strategy === 'prompt' ? await promptConflictStrategy(relativePath) : strategy;
+
+    switch (choice) {
+      case 'skip':
+        plan.remove(file.path);
+        keepPreviousEntry(record, previous, relativePath);
+        console.log(chalk.yellow(`Skipping ${relativePath}`));
+        break;
+      case 'new':
+        plan.remove(file.path);
+        // The .new file is the integration's, so remove deletes it unless it was edited
+        await plan.write(`${file.path}.new`, file.content, 'generated');
+        recordFile(record, plan.directory, `${file.path}.new`, file.content);
+        keepPreviousEntry(record, previous, relativePath);
+        console.log(chalk.yellow(`Writing generated ${relativePath} as ${relativePath}.new`));
+        break;
+      case 'merge': {
+        const recorded = previous?.files.some(entry => entry.path === relativePath);
+        const base = recorded ? await readSnapshot(plan.directory, record.tool, relativePath) : null;
+        const merged = mergeThreeWay(base, file.previous as string, file.content);
+
+        await plan.write(file.path, merged.content, 'generated');
+
+        if (merged.conflicts > 0) {
+          console.log(chalk.yellow(`Merged ${relativePath} with ${merged.conflicts} conflict(s); resolve the conflict markers before building`));
+        } else {
+          console.log(chalk.green(`✓ Merged ${relativePath}`));
+        }
+        break;
+      }
+      default:
+        console.log(chalk.yellow(`Overwriting ${relativePath}`));
+    }
+  }
+}
+
+/**
+ * Drops generated files a previous run created and the user has since deleted
+ * @param plan The plan to remove the files from
+ * @param record The record of the current run, updated to no longer own the files
+ * @param previous The manifest record of the previous run
+ */
+export function skipDeletedFiles(plan: FilePlan, record: IntegrationRecord, previous: IntegrationRecord): void {
+  for (const file of plan.getFiles()) {
+    const relativePath = plan.relative(file.path);
+
+    if (file.kind === 'generated' && file.previous === null && previous.files.some(entry => entry.path === relativePath)) {
+      plan.remove(file.path);
+      record.files = record.files.filter(entry => entry.path !== relativePath);
+      console.log(chalk.yellow(`Not recreating ${relativePath}, which was deleted since it was generated`));
+    }
+  }
+}
+
+/**
+ * Asks how to resolve a conflicting file
+ * @param relativePath The path of the file
+ * @returns A promise that resolves to the chosen strategy
+ */
+async function promptConflictStrategy(relativePath: string): Promise<ConflictStrategy> {
+  const { strategy } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'strategy',
+      message: `${relativePath} already exists. What should be done with it?`,
+      choices: [
+        { name: 'Skip (keep the existing file)', value: 'skip' },
+        { name: 'Overwrite with the generated file', value: 'overwrite' },
+        { name: 'Write the generated file as .new next to it', value: 'new' },
+        { name: 'Three-way merge the generated file into the existing file', value: 'merge' },
+      ],
+      default: 'skip',
+    },
+  ]);
+
+  return strategy;
+}
+
+/**
+ * Keeps the manifest entry of a file this run does not write, or drops it if the file was never generated
+ * @param record The record of the current run
+ * @param previous The manifest record of a previous run
+ * @param relativePath The manifest path of the file
+ */
+function keepPreviousEntry(record: IntegrationRecord, previous: IntegrationRecord | undefined, relativePath: string): void {
+  const index = record.files.findIndex(entry => entry.path === relativePath);
+  const previousEntry = previous?.files.find(entry => entry.path === relativePath);
+
+  if (index < 0) {
+    return;
+  }
+
+  if (previousEntry) {
+    record.files[index] = previousEntry;
+  } else {
+    record.files.splice(index, 1);
+  }
+}
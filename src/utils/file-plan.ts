@@ -0,0 +1,290 @@
+import * as fs from 'fs-extra';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { createTwoFilesPatch } from 'diff';
+
+/**
+ * Kind of a planned file
+ *
+ * - generated: owned by the integration and recorded in the manifest
+ * - shared: a project file the integration edits, like README.md or .env.local
+ * - internal: bookkeeping written by the integrator itself, like the manifest
+ */
+export type PlannedFileKind = 'generated' | 'shared' | 'internal';
+
+/**
+ * Interface for a file a run intends to write
+ */
+export interface PlannedFile {
+  path: string;
+  previous: string | null;
+  content: string;
+  kind: PlannedFileKind;
+}
+
+/**
+ * Status of a planned file compared to what is on disk
+ */
+export type PlannedFileStatus = 'new' | 'modified' | 'unchanged';
+
+/**
+ * Collects the files and commands of a run so they can be previewed or applied together
+ */
+export class FilePlan {
+  readonly directory: string;
+  private files = new Map<string, PlannedFile>();
+  private commands: string[] = [];
+
+  /**
+   * Creates a new FilePlan instance
+   * @param directory The directory of the Next.js app
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Reads a file as it will be after the plan is applied
+   * @param filePath The absolute path of the file
+   * @returns The planned content, the content on disk, or null if the file does not exist
+   */
+  async read(filePath: string): Promise<string | null> {
+    const planned = this.files.get(path.resolve(filePath));
+    if (planned) {
+      return planned.content;
+    }
+
+    return readExisting(filePath);
+  }
+
+  /**
+   * Adds a file to the plan
+   * @param filePath The absolute path of the file
+   * @param content The content to write
+   * @param kind The kind of file
+   */
+  async write(filePath: string, content: string, kind: PlannedFileKind = 'generated'): Promise<void> {
+    const resolved = path.resolve(filePath);
+    const existing = this.files.get(resolved);
+
+    this.files.set(resolved, {
+      path: resolved,
+      previous: existing ? existing.previous : await readExisting(resolved),
+      content,
+      kind,
+    });
+  }
+
+  /**
+   * Removes a file from the plan, leaving the file on disk untouched
+   * @param filePath The absolute path of the file
+   */
+  remove(filePath: string): void {
+    this.files.delete(path.resolve(filePath));
+  }
+
+  /**
+   * Adds a shell command to run after the files are written
+   * @param command The command to run
+   */
+  addCommand(command: string): void {
+    this.commands.push(command);
+  }
+
+  /**
+   * Gets the planned files in the order they were added
+   * @returns The planned files
+   */
+  getFiles(): PlannedFile[] {
+    return Array.from(this.files.values());
+  }
+
+  /**
+   * Gets the planned commands in the order they were added
+   * @returns The planned commands
+   */
+  getCommands(): string[] {
+    return [...this.commands];
+  }
+
+  /**
+   * Gets a path relative to the project root for display
+   * @param filePath The absolute path of the file
+   * @returns The relative path with forward slashes
+   */
+  relative(filePath: string): string {
+    return path.relative(this.directory, filePath).split(path.sep).join('/');
+  }
+}
+
+/**
+ * Gets the status of a planned file
+ * @param file The planned file
+ * @returns The status of the file
+ */
+export function getPlannedFileStatus(file: PlannedFile): PlannedFileStatus {
+  if (file.previous === null) {
+    return 'new';
+  }
+
+  return file.previous === file.content ? 'unchanged' : 'modified';
+}
+
+/**
+ * Prints the file tree, unified diffs and commands of a plan without writing anything
+ * @param plan The plan to print
+ */
+export function printPlan(plan: FilePlan): void {
+  const files = plan.getFiles().filter(file => file.kind !== 'internal');
+
+  console.log(chalk.blue('Dry run: no files will be written and no commands will be run'));
+  console.log('');
+
+  if (files.length === 0) {
+    console.log(chalk.yellow('No files would be written'));
+  } else {
+    console.log(chalk.blue('Files:'));
+    console.log(`${path.basename(plan.directory)}/`);
+    printTree(buildTree(plan, files), '');
+  }
+
+  for (const file of files) {
+    if (getPlannedFileStatus(file) === 'unchanged') {
+      continue;
+    }
+
+    const relativePath = plan.relative(file.path);
+    const patch = createTwoFilesPatch(
+      file.previous === null ? '/dev/null' : `a/${relativePath}`,
+      `b/${relativePath}`,
+      file.previous || '',
+      file.content
+    );
+
+    console.log('');
+    console.log(chalk.bold(`diff ${relativePath}`));
+    for (const line of patch.trimEnd().split('\n').slice(1)) {
+      console.log(colorizeDiffLine(line));
+    }
+  }
+
+  console.log('');
+  const commands = plan.getCommands();
+  if (commands.length === 0) {
+    console.log(chalk.yellow('No commands would be run'));
+  } else {
+    console.log(chalk.blue('Commands:'));
+    for (const command of commands) {
+      console.log(`  $ ${command}`);
+    }
+  }
+}
+
+/**
+ * Interface for a node in the printed file tree
+ */
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  status?: PlannedFileStatus;
+}
+
+/**
+ * Builds a tree of directories and files from the planned files
+ * @param plan The plan the files belong to
+ * @param files The planned files
+ * @returns The root node of the tree
+ */
+function buildTree(plan: FilePlan, files: PlannedFile[]): TreeNode {
+  const root: TreeNode = { children: new Map() };
+
+  for (const file of files) {
+    let node = root;
+    for (const segment of plan.relative(file.path).split('/')) {
+      if (!node.children.has(segment)) {
+        node.children.set(segment, { children: new Map() });
+      }
+      node = node.children.get(segment) as TreeNode;
+    }
+    node.status = getPlannedFileStatus(file);
+  }
+
+  return root;
+}
+
+/**
+ * Prints a tree node with box-drawing characters, directories first
+ * @param node The node to print
+ * @param prefix The indentation prefix for this level
+ */
+function printTree(node: TreeNode, prefix: string): void {
+  const entries = Array.from(node.children.entries()).sort(([nameA, a], [nameB, b]) => {
+    const isDirA = a.children.size > 0;
+    const isDirB = b.children.size > 0;
+    if (isDirA !== isDirB) {
+      return isDirA ? -1 : 1;
+    }
+    return nameA.localeCompare(nameB);
+  });
+
+  entries.forEach(([name, child], index) => {
+    const isLast = index === entries.length - 1;
+    const isDir = child.children.size > 0;
+    const label = isDir ? `${name}/` : `${name} ${formatStatus(child.status)}`;
+
+    console.log(`${prefix}${isLast ? '└── ' : '├── '}${label}`);
+
+    if (isDir) {
+      printTree(child, prefix + (isLast ? '    ' : '│   '));
+    }
+  });
+}
+
+/**
+ * Formats a file status for the tree
+ * @param status The status of the file
+ * @returns The colored status label
+ */
+function formatStatus(status?: PlannedFileStatus): string {
+  switch (status) {
+    case 'new':
+      return chalk.green('(new)');
+    case 'modified':
+      return chalk.yellow('(modified)');
+    default:
+      return chalk.gray('(unchanged)');
+  }
+}
+
+/**
+ * Colors a line of a unified diff
+ * @param line The line to color
+ * @returns The colored line
+ */
+function colorizeDiffLine(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) {
+    return chalk.bold(line);
+  }
+  if (line.startsWith('@@')) {
+    return chalk.cyan(line);
+  }
+  if (line.startsWith('+')) {
+    return chalk.green(line);
+  }
+  if (line.startsWith('-')) {
+    return chalk.red(line);
+  }
+  return line;
+}
+
+/**
+ * Reads a file from disk if it exists
+ * @param filePath The path of the file
+ * @returns The content of the file, or null if it does not exist
+ */
+async function readExisting(filePath: string): Promise<string | null> {
+  if (!await fs.pathExists(filePath)) {
+    return null;
+  }
+
+  return fs.readFile(filePath, 'utf8');
+}
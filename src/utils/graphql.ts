@@ -0,0 +1,343 @@
+import chalk from 'chalk';
+import { ApiDescription, ApiSchema } from './api-description';
+
+/**
+ * How long the introspection query may take
+ */
+const INTROSPECTION_TIMEOUT_MS = 10000;
+
+/**
+ * Paths GraphQL endpoints are usually served at
+ */
+const GRAPHQL_ENDPOINT_PATTERN = /(^|\/)(graphql|gql)\/?$/i;
+
+/**
+ * How many fields the example query selects at most
+ */
+const MAX_EXAMPLE_FIELDS = 10;
+
+/**
+ * Types of the built-in scalars
+ */
+const BUILT_IN_SCALARS: Record<string, ApiSchema> = {
+  ID: { type: 'string' },
+  String: { type: 'string' },
+  Int: { type: 'integer' },
+  Float: { type: 'number' },
+  Boolean: { type: 'boolean' },
+};
+
+/**
+ * Query that reads the types and root operation types of a schema
+ */
+const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    types {
+      kind
+      name
+      description
+      fields(includeDeprecated: true) {
+        name
+        description
+        args { ...InputValue }
+        type { ...TypeRef }
+      }
+      inputFields { ...InputValue }
+      enumValues(includeDeprecated: true) { name }
+      possibleTypes { name }
+    }
+  }
+}
+
+fragment InputValue on __InputValue {
+  name
+  description
+  type { ...TypeRef }
+  defaultValue
+}
+
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } }
+}`;
+
+/**
+ * Interface for a reference to a type in an introspection result, wrapped in lists and non-null
+ */
+interface IntrospectionTypeRef {
+  kind: string;
+  name: string | null;
+  ofType?: IntrospectionTypeRef | null;
+}
+
+/**
+ * Interface for an argument or input field in an introspection result
+ */
+interface IntrospectionInputValue {
+  name: string;
+  description?: string | null;
+  type: IntrospectionTypeRef;
+  defaultValue?: string | null;
+}
+
+/**
+ * Interface for a field in an introspection result
+ */
+interface IntrospectionField {
+  name: string;
+  description?: string | null;
+  args: IntrospectionInputValue[];
+  type: IntrospectionTypeRef;
+}
+
+/**
+ * Interface for a named type in an introspection result
+ */
+interface IntrospectionType {
+  kind: string;
+  name: string;
+  description?: string | null;
+  fields?: IntrospectionField[] | null;
+  inputFields?: IntrospectionInputValue[] | null;
+  enumValues?: { name: string }[] | null;
+  possibleTypes?: { name: string }[] | null;
+}
+
+/**
+ * Interface for the schema in an introspection result
+ */
+interface IntrospectionSchema {
+  queryType: { name: string } | null;
+  mutationType: { name: string } | null;
+  types: IntrospectionType[];
+}
+
+/**
+ * Interface for a GraphQL API
+ *
+ * The schemas hold the named types of the schema and the arguments of the root fields, as
+ * Query<Field>Args and Mutation<Field>Args, so they are declared like those of an OpenAPI
+ * document. A GraphQL API has no operations of its own.
+ */
+export interface GraphQLDescription extends ApiDescription {
+  queryType: string | null;
+  mutationType: string | null;
+  exampleQuery: string | null;
+}
+
+/**
+ * Checks whether a URL path is where GraphQL endpoints are usually served
+ * @param pathname The path of a URL, or its last segment
+ * @returns True if the path ends in /graphql or /gql
+ */
+export function isGraphQLEndpointPath(pathname: string): boolean {
+  return GRAPHQL_ENDPOINT_PATTERN.test(pathname);
+}
+
+/**
+ * Reads the schema of a GraphQL endpoint with an introspection query
+ * @param url The URL of the endpoint
+ * @returns A promise that resolves to the API, or null if the URL is not a GraphQL endpoint
+ */
+export async function introspectGraphQL(url: string): Promise<GraphQLDescription | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), INTROSPECTION_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ query: INTROSPECTION_QUERY, operationName: 'IntrospectionQuery' }),
+      signal: controller.signal,
+    });
+    const result = await response.json() as { data?: { __schema?: IntrospectionSchema }; errors?: { message?: string }[] };
+
+    if (!result.data?.__schema) {
+      const reason = result.errors?.map(error => error.message).join('; ') || `${response.status} ${response.statusText}`;
+      console.warn(chalk.yellow(`${url} did not answer the introspection query: ${reason}`));
+      return null;
+    }
+
+    return convertIntrospection(result.data.__schema, url);
+  } catch (error) {
+    console.warn(chalk.yellow(`Could not introspect the GraphQL schema of ${url}: ${error instanceof Error ? error.message : String(error)}`));
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Converts the schema of an introspection result into a GraphQL API
+ * @param schema The __schema of the introspection result
+ * @param url The URL of the endpoint
+ * @returns The API
+ */
+function convertIntrospection(schema: IntrospectionSchema, url: string): GraphQLDescription {
+  const types = schema.types.filter(type => !type.name.startsWith('__') && !BUILT_IN_SCALARS[type.name]);
+  const schemas: Record<string, ApiSchema> = {};
+
+  for (const type of types) {
+    schemas[type.name] = convertNamedType(type);
+  }
+
+  // Arguments of the root fields, named like Query<Field>Args
+  for (const root of [schema.queryType?.name, schema.mutationType?.name]) {
+    const rootType = types.find(type => type.name === root);
+    for (const field of rootType?.fields || []) {
+      if (field.args.length === 0) {
+        continue;
+      }
+
+      const base = `${root}${field.name.charAt(0).toUpperCase()}${field.name.slice(1)}Args`;
+      let name = base;
+      for (let suffix = 2; schemas[name]; suffix++) {
+        name = `${base}${suffix}`;
+      }
+      schemas[name] = convertInputValues(field.args);
+    }
+  }
+
+  const queryType = schema.queryType?.name || null;
+
+  return {
+    format: 'GraphQL',
+    title: new URL(url).hostname,
+    baseUrl: url,
+    schemas,
+    operations: [],
+    queryType,
+    mutationType: schema.mutationType?.name || null,
+    exampleQuery: queryType ? createExampleQuery(types, queryType) : null,
+  };
+}
+
+/**
+ * Converts a named type into a schema
+ * @param type The type
+ * @returns The schema
+ */
+function convertNamedType(type: IntrospectionType): ApiSchema {
+  const description = type.description || undefined;
+
+  switch (type.kind) {
+    case 'ENUM':
+      return { type: 'string', enum: (type.enumValues || []).map(value => value.name), description };
+    case 'UNION':
+      return { oneOf: (type.possibleTypes || []).map(possible => ({ ref: possible.name })), description };
+    case 'INPUT_OBJECT':
+      return { ...convertInputValues(type.inputFields || []), description };
+    case 'OBJECT':
+    case 'INTERFACE': {
+      const properties: Record<string, ApiSchema> = {};
+      for (const field of type.fields || []) {
+        properties[field.name] = { ...convertTypeRef(field.type), description: field.description || undefined };
+      }
+      // Every selected field is in the result, null or not
+      return { type: 'object', properties, required: Object.keys(properties), description };
+    }
+    default:
+      // Custom scalars are serialized however the server chooses
+      return { description: description || `The ${type.name} scalar` };
+  }
+}
+
+/**
+ * Converts arguments or input fields into an object schema
+ * @param values The arguments or input fields
+ * @returns The schema, with the non-null values without a default required
+ */
+function convertInputValues(values: IntrospectionInputValue[]): ApiSchema {
+  const properties: Record<string, ApiSchema> = {};
+  const required: string[] = [];
+
+  for (const value of values) {
+    properties[value.name] = { ...convertTypeRef(value.type), description: value.description || undefined };
+    if (value.type.kind === 'NON_NULL' && value.defaultValue == null) {
+      required.push(value.name);
+    }
+  }
+
+  return { type: 'object', properties, required };
+}
+
+/**
+ * Converts a type reference into a schema, nullable unless it is wrapped in non-null
+ * @param ref The type reference
+ * @returns The schema
+ */
+function convertTypeRef(ref: IntrospectionTypeRef): ApiSchema {
+  if (ref.kind === 'NON_NULL' && ref.ofType) {
+    const schema = convertTypeRef(ref.ofType);
+    delete schema.nullable;
+    return schema;
+  }
+
+  if (ref.kind === 'LIST') {
+    return { type: 'array', items: ref.ofType ? convertTypeRef(ref.ofType) : {}, nullable: true };
+  }
+
+  const name = ref.name || '';
+  return { ...(BUILT_IN_SCALARS[name] || { ref: name }), nullable: true };
+}
+
+/**
+ * Creates a query that selects the first root field without required arguments
+ * @param types The named types of the schema
+ * @param queryType The name of the query root type
+ * @returns The query document, or null if every root field needs arguments
+ */
+function createExampleQuery(types: IntrospectionType[], queryType: string): string | null {
+  const root = types.find(type => type.name === queryType);
+  const field = (root?.fields || []).find(candidate => !hasRequiredArgs(candidate));
+  if (!field) {
+    return null;
+  }
+
+  const fieldType = types.find(type => type.name === getNamedType(field.type));
+  let selection = '';
+
+  if (fieldType?.kind === 'OBJECT' || fieldType?.kind === 'INTERFACE') {
+    const leaves = (fieldType.fields || [])
+      .filter(candidate => !hasRequiredArgs(candidate) && isLeafType(types, getNamedType(candidate.type)))
+      .slice(0, MAX_EXAMPLE_FIELDS)
+      .map(candidate => candidate.name);
+    selection = ` {\n${(leaves.length > 0 ? leaves : ['__typename']).map(leaf => `    ${leaf}`).join('\n')}\n  }`;
+  } else if (fieldType?.kind === 'UNION') {
+    selection = ' {\n    __typename\n  }';
+  }
+
+  return `query Example {\n  ${field.name}${selection}\n}`;
+}
+
+/**
+ * Checks whether a field has arguments that must be passed
+ * @param field The field
+ * @returns True if a non-null argument has no default
+ */
+function hasRequiredArgs(field: IntrospectionField): boolean {
+  return field.args.some(arg => arg.type.kind === 'NON_NULL' && arg.defaultValue == null);
+}
+
+/**
+ * Gets the name of the type a reference wraps
+ * @param ref The type reference
+ * @returns The name of the named type
+ */
+function getNamedType(ref: IntrospectionTypeRef): string {
+  return ref.ofType ? getNamedType(ref.ofType) : ref.name || '';
+}
+
+/**
+ * Checks whether a type can be selected without a selection set
+ * @param types The named types of the schema
+ * @param name The name of the type
+ * @returns True for scalars and enums
+ */
+function isLeafType(types: IntrospectionType[], name: string): boolean {
+  const type = types.find(candidate => candidate.name === name);
+  return !!BUILT_IN_SCALARS[name] || type?.kind === 'SCALAR' || type?.kind === 'ENUM';
+}
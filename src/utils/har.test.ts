@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { convertHar } from './har';
+
+/**
+ * Creates a HAR entry of a fetch request answered with JSON
+ * @param method The method
+ * @param url The URL
+ * @param response The response body
+ * @param body The request body
+ * @returns The entry
+ */
+function entry(method: string, url: string, response: unknown, body?: unknown): Record<string, any> {
+  return {
+    _resourceType: 'fetch',
+    request: {
+      method,
+      url,
+      headers: [
+        { name: 'Accept', value: 'application/json' },
+        { name: 'X-Api-Key', value: 'secret' },
+        { name: 'X-Client', value: 'web' },
+      ],
+      postData: body === undefined ? undefined : { mimeType: 'application/json', text: JSON.stringify(body) },
+    },
+    response: { status: 200, content: { mimeType: 'application/json', text: JSON.stringify(response) } },
+  };
+}
+
+test('groups requests with IDs in their paths into operations with inferred types', t => {
+  t.mock.method(console, 'warn', () => undefined);
+  const api = convertHar({
+    log: {
+      entries: [
+        entry('GET', 'https://api.acme.test/v1/users/42?expand=true', { id: 42, name: 'Ada' }),
+        entry('GET', 'https://api.acme.test/v1/users/43', { id: 43, name: 'Bob', email: 'bob@acme.test' }),
+        entry('POST', 'https://api.acme.test/v1/users', { id: 44 }, { name: 'Cy' }),
+      ],
+    },
+  });
+
+  assert.equal(api.format, 'HAR');
+  assert.equal(api.title, 'acme');
+  assert.equal(api.baseUrl, 'https://api.acme.test/v1');
+  assert.deepEqual(api.operations.map(operation => `${operation.method} ${operation.path} ${operation.name}`), [
+    'GET /users/{userId} getUsersByUserId',
+    'POST /users postUsers',
+  ]);
+
+  const [getUser, postUser] = api.operations;
+  assert.deepEqual(getUser.parameters, [
+    { name: 'userId', in: 'path', required: true, schema: { type: 'integer' } },
+    { name: 'expand', in: 'query', required: false, schema: { type: 'boolean' } },
+  ]);
+  assert.deepEqual(getUser.response, {
+    type: 'object',
+    properties: { id: { type: 'integer' }, name: { type: 'string' }, email: { type: 'string' } },
+    required: ['id', 'name'],
+  });
+  assert.deepEqual(getUser.example?.params, { userId: 42, expand: true });
+  assert.deepEqual(postUser.requestBody, { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] });
+  assert.equal(postUser.requestBodyRequired, true);
+});
+
+test('detects the API key and default headers, leaving out standard headers', t => {
+  t.mock.method(console, 'warn', () => undefined);
+  const api = convertHar({
+    log: {
+      entries: [
+        entry('GET', 'https://api.acme.test/items', []),
+        entry('GET', 'https://api.acme.test/items/7', {}),
+      ],
+    },
+  });
+
+  assert.deepEqual(api.auth, { type: 'apiKey', name: 'X-Api-Key', in: 'header' });
+  assert.deepEqual(api.headers, [{ name: 'X-Client', value: 'web' }]);
+});
+
+test('skips requests that are not fetch or XHR, or go to another host', t => {
+  const warn = t.mock.method(console, 'warn', () => undefined);
+  const api = convertHar({
+    log: {
+      entries: [
+        entry('GET', 'https://api.acme.test/items', []),
+        entry('GET', 'https://api.acme.test/orders', []),
+        entry('GET', 'https://cdn.acme.test/config', {}),
+        { _resourceType: 'image', request: { method: 'GET', url: 'https://api.acme.test/logo.png' }, response: { status: 200 } },
+        { ...entry('OPTIONS', 'https://api.acme.test/items', undefined) },
+      ],
+    },
+  });
+
+  assert.deepEqual(api.operations.map(operation => operation.name), ['getItems', 'getOrders']);
+  assert.equal(warn.mock.callCount(), 1);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /1 requests to other hosts than https:\/\/api\.acme\.test/);
+});
@@ -0,0 +1,150 @@
+import chalk from 'chalk';
+import { ApiAuth, ApiDescription } from './api-description';
+import {
+  createApiFromRequests,
+  detectHeaderAuth,
+  findCommonHeaders,
+  isApiKeyQueryParameter,
+  isHttpMethod,
+  parseJsonBody,
+  RecordedField,
+  RecordedRequest,
+  selectApiRequests,
+  templatePath,
+} from './api-examples';
+
+/**
+ * Resource types of the requests a page sends to an API, as browsers record them
+ */
+const API_RESOURCE_TYPES = new Set(['xhr', 'fetch']);
+
+/**
+ * Checks whether a parsed file is a HAR capture
+ * @param document The parsed file
+ * @returns True if the file has a log of entries
+ */
+export function isHarFile(document: Record<string, any>): boolean {
+  return Array.isArray(document.log?.entries);
+}
+
+/**
+ * Converts the API requests of a HAR capture into an API description
+ *
+ * Only the fetch and XHR requests, or the requests with JSON bodies when the browser did not
+ * record resource types, are API requests. IDs in their paths become path parameters, so
+ * /users/42 and /users/43 are one operation, and the captured responses are the examples
+ * its response type is inferred from.
+ * @param document The parsed HAR file
+ * @returns The API
+ */
+export function convertHar(document: Record<string, any>): ApiDescription {
+  const requests: RecordedRequest[] = [];
+  const skipped: string[] = [];
+  let auth: ApiAuth | null = null;
+  let cookies = false;
+
+  for (const entry of document.log.entries) {
+    if (!isApiEntry(entry)) {
+      continue;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(entry.request.url);
+    } catch (error) {
+      continue;
+    }
+
+    const method = String(entry.request.method || 'GET').toUpperCase();
+    if (!isHttpMethod(method)) {
+      continue;
+    }
+
+    const headers: RecordedField[] = (Array.isArray(entry.request.headers) ? entry.request.headers : [])
+      .filter((header: any) => typeof header?.name === 'string')
+      .map((header: any) => ({ name: header.name, value: String(header.value ?? '') }));
+
+    for (const header of headers) {
+      auth = auth || detectHeaderAuth(header.name, header.value);
+      cookies = cookies || /^cookie$/i.test(header.name);
+    }
+
+    const query: RecordedField[] = [];
+    for (const [name, value] of url.searchParams) {
+      if (isApiKeyQueryParameter(name)) {
+        auth = auth || { type: 'apiKey', name, in: 'query' };
+      } else {
+        query.push({ name, value });
+      }
+    }
+
+    const { path, params } = templatePath(url.pathname);
+    const postData = entry.request.postData;
+    const body = parseJsonBody(postData?.text);
+    if (postData?.text && body === undefined) {
+      skipped.push(`${method} ${path}`);
+      continue;
+    }
+
+    requests.push({
+      method,
+      baseUrl: url.origin,
+      path,
+      pathParams: params,
+      query,
+      headers,
+      body,
+      responses: [{ status: Number(entry.response?.status) || 0, body: parseJsonBody(getContentText(entry.response?.content)) }],
+    });
+  }
+
+  if (skipped.length > 0) {
+    console.warn(chalk.yellow(`Skipping requests without a JSON request body: ${Array.from(new Set(skipped)).join(', ')}`));
+  }
+  if (cookies && !auth) {
+    console.warn(chalk.yellow('The captured requests are authenticated with cookies, which the generated client does not send; use an API key if the tool has one'));
+  }
+
+  const apiRequests = selectApiRequests(requests);
+  const api = createApiFromRequests({
+    format: 'HAR',
+    title: '',
+    requests: apiRequests,
+    auth: auth || undefined,
+    headers: findCommonHeaders(apiRequests),
+  });
+
+  // A capture has no title, so the API is named after its host, like createToolInfo does
+  return { ...api, title: api.baseUrl ? new URL(api.baseUrl).hostname.replace(/^(www|api)\./, '').split('.')[0] : 'API' };
+}
+
+/**
+ * Checks whether a HAR entry is a request to an API
+ * @param entry The entry
+ * @returns True for fetch and XHR requests, or requests with JSON bodies
+ */
+function isApiEntry(entry: Record<string, any>): boolean {
+  if (typeof entry?.request?.url !== 'string' || String(entry.request.method).toUpperCase() === 'OPTIONS') {
+    return false;
+  }
+
+  if (typeof entry._resourceType === 'string') {
+    return API_RESOURCE_TYPES.has(entry._resourceType);
+  }
+
+  return /json/i.test(String(entry.response?.content?.mimeType || ''))
+    || /json/i.test(String(entry.request.postData?.mimeType || ''));
+}
+
+/**
+ * Gets the text of a captured response body
+ * @param content The content of the response
+ * @returns The text, decoded if it was captured as base64
+ */
+function getContentText(content: Record<string, any> | undefined): string | undefined {
+  if (typeof content?.text !== 'string') {
+    return undefined;
+  }
+
+  return content.encoding === 'base64' ? Buffer.from(content.text, 'base64').toString('utf8') : content.text;
+}
@@ -0,0 +1,310 @@
+import { ApiAuth, ClientMember } from './api-description';
+import { generateAuthHeaders, getAuthSettings } from './auth';
+import { ToolNames } from './naming';
+
+/**
+ * How long a request to the tool may take by default, in milliseconds
+ */
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * How many times an idempotent request is retried by default
+ */
+export const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * Generates the error classes the integration throws
+ * @param names The names of the tool
+ * @param typescript Whether to generate TypeScript
+ * @returns The classes, with a leading blank line
+ */
+export function generateClientErrors(names: ToolNames, typescript: boolean): string {
+  const field = (name: string, type: string) => typescript ? `\n  ${name}: ${type};` : '';
+  const param = (name: string, type: string, description: string) => typescript
+    ? `\n   * @param ${name} ${description}`
+    : `\n   * @param {${type}} ${name} ${description}`;
+  const signature = (params: [string, string][]) => params
+    .map(([name, type]) => typescript ? `${name}: ${type}` : name)
+    .join(', ');
+
+  return `
+/**
+ * Base class of the errors the ${names.kebab} integration throws
+ */
+export class ${names.pascal}Error extends Error {
+  /**${param('message', 'string', 'The error message')}
+   */
+  constructor(${signature([['message', 'string']])}) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Error for a response with an error status, carrying the status and the parsed body
+ */
+export class ${names.pascal}ApiError extends ${names.pascal}Error {${field('status', 'number')}${field('body', 'unknown')}
+  
+  /**${param('message', 'string', 'The error message')}${param('status', 'number', 'The HTTP status of the response')}${param('body', 'unknown', 'The body of the response, parsed if it is JSON')}
+   */
+  constructor(${signature([['message', 'string'], ['status', 'number'], ['body', 'unknown']])}) {
+    super(message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Error for a request that got no response within the configured timeout
+ */
+export class ${names.pascal}TimeoutError extends ${names.pascal}Error {${field('timeout', 'number')}
+  
+  /**${param('timeout', 'number', 'The timeout in milliseconds')}
+   */
+  constructor(${signature([['timeout', 'number']])}) {
+    super(\`${names.kebab} API error: no response within \${timeout} ms\`);
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error for settings that are missing or invalid, naming the environment variables to set
+ */
+export class ${names.pascal}ConfigError extends ${names.pascal}Error {${field('keys', 'string[]')}
+  
+  /**${param('message', 'string', 'The error message')}${param('keys', 'string[]', 'The environment variables of the settings')}
+   */
+  constructor(${signature([['message', 'string'], ['keys', 'string[]']])}) {
+    super(message);
+    this.keys = keys;
+  }
+}
+`;
+}
+
+/**
+ * Generates the constants and functions that decide when and how long to wait before a retry
+ * @param typescript Whether to generate TypeScript
+ * @returns The helpers, with a leading blank line
+ */
+export function generateRetryHelpers(typescript: boolean): string {
+  return `
+/**
+ * Methods of the requests that can be repeated without repeating their effect
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Statuses of responses that a later attempt may not get
+ */
+const RETRY_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * Delay before the first retry, doubled for every further one, in milliseconds
+ */
+const RETRY_BASE_DELAY = 500;
+
+/**
+ * Longest delay before a retry, in milliseconds; a longer Retry-After is not waited for
+ */
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Gets how long to wait before retrying a request, as its Retry-After header says or with exponential backoff${typescript ? '' : `
+ * @param {number} attempt The number of the failed attempt, starting at 0
+ * @param {string | null} retryAfter The Retry-After header of the response, in seconds or as a date
+ * @returns {number | null} The delay in milliseconds, or null if the server asks to wait too long`}
+ */
+function getRetryDelay(attempt${typescript ? ': number, retryAfter: string | null): number | null' : ', retryAfter)'} {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(delay)) {
+      return delay <= MAX_RETRY_DELAY ? Math.max(delay, 0) : null;
+    }
+  }
+  
+  // Full jitter keeps clients that failed together from retrying together
+  return Math.random() * Math.min(RETRY_BASE_DELAY * 2 ** attempt, MAX_RETRY_DELAY);
+}
+
+/**
+ * Waits before a retry${typescript ? '' : `
+ * @param {number} ms The delay in milliseconds
+ * @returns {Promise<void>}`}
+ */
+function sleep(ms${typescript ? ': number): Promise<void>' : ')'} {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parses the body of a response, which is JSON unless the tool answers with text${typescript ? '' : `
+ * @param {string} text The body
+ * @returns {any} The parsed body, the text itself if it is not JSON, or undefined if it is empty`}
+ */
+function parseBody(text${typescript ? ': string): any' : ')'} {
+  if (!text) {
+    return undefined;
+  }
+  
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+`;
+}
+
+/**
+ * Generates the config defaults every client reads from the environment
+ * @param names The names of the tool
+ * @param baseUrl The base URL of the tool
+ * @returns The properties of the default config, each on a new line
+ */
+export function generateClientDefaults(names: ToolNames, baseUrl: string): string {
+  return `
+      baseUrl: process.env.${names.screaming}_BASE_URL || '${baseUrl}',
+      timeout: Number(process.env.${names.screaming}_TIMEOUT || ${DEFAULT_TIMEOUT_MS}),
+      maxRetries: Number(process.env.${names.screaming}_MAX_RETRIES || ${DEFAULT_MAX_RETRIES}),`;
+}
+
+/**
+ * Generates the request method of the integration class, with the methods it sends attempts and checks the config with
+ *
+ * Every attempt is authenticated again, so signatures and access tokens are fresh.
+ * @param names The names of the tool
+ * @param auth The auth scheme of the client
+ * @param api Whether endpoints are paths appended to the base URL, as in API descriptions, or URLs resolved against it
+ * @param headers Whether the config has default headers
+ * @param typescript Whether to generate TypeScript
+ * @returns The methods, indented for the class body
+ */
+export function generateRequestMethods(
+  names: ToolNames,
+  auth: ApiAuth,
+  api: boolean,
+  headers: boolean,
+  typescript: boolean
+): string {
+  const url = api
+    ? "new URL(`${(this.config.baseUrl || '').replace(/\\/+$/, '')}${endpoint.startsWith('/') ? '' : '/'}${endpoint}`)"
+    : 'new URL(endpoint, this.config.baseUrl)';
+  const settings = getAuthSettings(auth)
+    .filter(setting => !setting.optional)
+    .map(setting => `\n      [this.config.${setting.property}, '${names.screaming}_${setting.key}'],`)
+    .join('');
+
+  const request = `  /**
+   * Make a request to the ${names.kebab} API, retrying idempotent requests that fail on their way or with a temporary error
+${typescript ? `   * @param endpoint The API endpoint
+   * @param options Request options
+   * @returns The response data
+   * @throws ${names.pascal}ApiError for a response with an error status, ${names.pascal}TimeoutError when the tool does not answer in time` : `   * @param {string} endpoint The API endpoint
+   * @param {RequestInit} [options] Request options
+   * @returns {Promise<any>} The response data
+   * @throws {${names.pascal}ApiError} For a response with an error status
+   * @throws {${names.pascal}TimeoutError} When the tool does not answer in time`}
+   */
+  async request(endpoint${typescript ? ': string, options: RequestInit = {}): Promise<any>' : ', options = {})'} {
+    this.validateConfig();
+    const url = ${url};
+    const retries = IDEMPOTENT_METHODS.includes((options.method || 'GET').toUpperCase()) ? ${typescript ? 'this.config.maxRetries!' : '/** @type {number} */ (this.config.maxRetries)'} : 0;
+    
+    for (let attempt = 0; ; attempt++) {
+      ${typescript ? 'let result: { response: Response; text: string };' : '/** @type {{ response: Response, text: string }} */\n      let result;'}
+      try {
+        result = await this.send(url, {
+          ...options,
+          headers: {
+            'Content-Type': 'application/json',${generateAuthHeaders(auth)}${headers ? '\n          ...this.config.headers,' : ''}
+            ...(options.headers || {}),
+          },
+        });
+      } catch (error) {
+        // Network errors and timeouts are retried, requests the caller aborted are not
+        const delay = attempt < retries && !options.signal?.aborted ? getRetryDelay(attempt, null) : null;
+        if (delay === null) {
+          throw error;
+        }
+        await sleep(delay);
+        continue;
+      }
+      
+      const { response, text } = result;
+      if (response.ok) {
+        // Operations without a response body answer with 204 No Content, and some answer with text
+        return parseBody(text);
+      }
+      
+      const delay = attempt < retries && RETRY_STATUSES.includes(response.status)
+        ? getRetryDelay(attempt, response.headers.get('Retry-After'))
+        : null;
+      if (delay === null) {
+        throw new ${names.pascal}ApiError(\`${names.kebab} API error: \${response.status} \${response.statusText}\`, response.status, parseBody(text));
+      }
+      await sleep(delay);
+    }
+  }`;
+
+  const send = `  /**
+   * Send one attempt of a request and read its body, aborting it when the timeout passes
+${typescript ? `   * @param url The URL of the request
+   * @param options The options of the request
+   * @returns The response and its body
+   * @throws ${names.pascal}TimeoutError when the timeout passes` : `   * @param {URL} url The URL of the request
+   * @param {RequestInit} options The options of the request
+   * @returns {Promise<{ response: Response, text: string }>} The response and its body
+   * @throws {${names.pascal}TimeoutError} When the timeout passes`}
+   */
+  ${typescript ? 'private async send(url: URL, options: RequestInit): Promise<{ response: Response; text: string }>' : 'async send(url, options)'} {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    
+    // Aborting the caller's signal aborts the attempt
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) {
+      abort();
+    }
+    options.signal?.addEventListener('abort', abort);
+    
+    try {
+      const response = await fetch(url, { ...options, signal: controller.signal });
+      return { response, text: await response.text() };
+    } catch (error) {
+      if (controller.signal.aborted && !options.signal?.aborted) {
+        throw new ${names.pascal}TimeoutError(${typescript ? 'this.config.timeout!' : '/** @type {number} */ (this.config.timeout)'});
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }`;
+
+  const validate = `  /**
+   * Check that the settings requests need are set, in the config or the environment
+${typescript ? `   * @throws ${names.pascal}ConfigError naming the environment variables to set` : `   * @returns {void}
+   * @throws {${names.pascal}ConfigError} Naming the environment variables to set`}
+   */
+  ${typescript ? 'private validateConfig(): void' : 'validateConfig()'} {
+    ${typescript ? 'const required: [unknown, string][]' : '/** @type {[unknown, string][]} */\n    const required'} = [${settings}
+      [this.config.baseUrl, '${names.screaming}_BASE_URL'],
+    ];
+    const missing = required.filter(([value]) => !value).map(([, key]) => key);
+    if (missing.length > 0) {
+      throw new ${names.pascal}ConfigError(\`${names.kebab} is not configured: set \${missing.join(', ')}\`, missing);
+    }
+    
+    if (!Number.isFinite(this.config.timeout) || ${typescript ? 'this.config.timeout!' : '/** @type {number} */ (this.config.timeout)'} <= 0) {
+      throw new ${names.pascal}ConfigError('${names.kebab} timeout must be a positive number of milliseconds: set ${names.screaming}_TIMEOUT', ['${names.screaming}_TIMEOUT']);
+    }
+    if (!Number.isInteger(this.config.maxRetries) || ${typescript ? 'this.config.maxRetries!' : '/** @type {number} */ (this.config.maxRetries)'} < 0) {
+      throw new ${names.pascal}ConfigError('${names.kebab} retries must be a whole number: set ${names.screaming}_MAX_RETRIES', ['${names.screaming}_MAX_RETRIES']);
+    }
+  }`;
+
+  // Paired with their member names, so the names are checked against CLIENT_MEMBERS
+  const methods: [ClientMember, string][] = [['request', request], ['send', send], ['validateConfig', validate]];
+  return methods.map(([, method]) => method).join('\n  \n');
+}
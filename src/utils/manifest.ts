@@ -0,0 +1,275 @@
+import * as fs from 'fs-extra';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { FilePlan } from './file-plan';
+import { NextRouter } from './project-layout';
+
+/**
+ * Name of the manifest file written to the project root
+ */
+export const MANIFEST_FILE = '.integrations.json';
+
+/**
+ * Directory holding the content each integration originally generated, used as the base for merges
+ */
+export const SNAPSHOT_DIR = '.integrations';
+
+/**
+ * Version of the generator recorded with every integration
+ */
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+export const GENERATOR_VERSION: string = require('../../package.json').version;
+
+/**
+ * Interface for a file written by an integration
+ */
+export interface ManifestFile {
+  path: string;
+  hash: string;
+}
+
+/**
+ * Interface for everything a single integration run generated
+ */
+export interface IntegrationRecord {
+  tool: string;
+  source: string;
+  generatorVersion: string;
+  createdAt: string;
+  updatedAt: string;
+  options: Record<string, unknown>;
+  files: ManifestFile[];
+  envFiles: string[];
+  envKeys: string[];
+  envFileKeys?: Record<string, string[]>;
+  readmeSection?: string;
+  dependencies: string[];
+  router?: NextRouter;
+  sharedPackage?: string;
+  auth?: string;
+}
+
+/**
+ * Interface for the .integrations.json manifest
+ */
+export interface IntegrationManifest {
+  version: 1;
+  integrations: Record<string, IntegrationRecord>;
+}
+
+/**
+ * Status of a generated file compared to the content that was generated
+ */
+export type FileStatus = 'unchanged' | 'modified' | 'missing';
+
+/**
+ * Creates an empty record for an integration run
+ * @param tool The name of the tool
+ * @param source The URL, or the Postman collection or HAR file, the integration was generated from
+ * @param options The options used for the run
+ * @returns A new integration record
+ */
+export function createIntegrationRecord(
+  tool: string,
+  source: string,
+  options: Record<string, unknown>
+): IntegrationRecord {
+  const now = new Date().toISOString();
+
+  return {
+    tool,
+    source,
+    generatorVersion: GENERATOR_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    options,
+    files: [],
+    envFiles: [],
+    envKeys: [],
+    dependencies: [],
+  };
+}
+
+/**
+ * Gets the variables an integration added to one of its env files
+ *
+ * Records of older versions only have the keys of all files together.
+ * @param record The integration record
+ * @param envFile The path of the env file, relative to the app
+ * @returns The keys of the variables
+ */
+export function getEnvFileKeys(record: IntegrationRecord, envFile: string): string[] {
+  return record.envFileKeys?.[envFile] ?? record.envKeys;
+}
+
+/**
+ * Hashes file content the same way for recording and for comparison
+ * @param content The file content
+ * @returns The SHA-256 hash of the content
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Records a generated file in an integration record
+ * @param record The integration record
+ * @param directory The directory of the Next.js app
+ * @param filePath The absolute path of the file
+ * @param content The content that was written
+ */
+export function recordFile(record: IntegrationRecord, directory: string, filePath: string, content: string): void {
+  const relativePath = toManifestPath(directory, filePath);
+  const entry = { path: relativePath, hash: hashContent(content) };
+
+  const index = record.files.findIndex(file => file.path === relativePath);
+  if (index >= 0) {
+    record.files[index] = entry;
+  } else {
+    record.files.push(entry);
+  }
+}
+
+/**
+ * Reads the manifest from a project, returning an empty manifest if none exists
+ * @param directory The directory of the Next.js app
+ * @returns A promise that resolves to the manifest
+ */
+export async function readManifest(directory: string): Promise<IntegrationManifest> {
+  const manifestPath = path.join(directory, MANIFEST_FILE);
+
+  if (!await fs.pathExists(manifestPath)) {
+    return { version: 1, integrations: {} };
+  }
+
+  try {
+    const manifest = await fs.readJson(manifestPath);
+    return {
+      version: 1,
+      integrations: manifest.integrations || {},
+    };
+  } catch (error) {
+    throw new Error(`Could not read ${MANIFEST_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Writes the manifest to a project
+ * @param directory The directory of the Next.js app
+ * @param manifest The manifest to write
+ */
+export async function writeManifest(directory: string, manifest: IntegrationManifest): Promise<void> {
+  await fs.writeJson(path.join(directory, MANIFEST_FILE), manifest, { spaces: 2 });
+}
+
+/**
+ * Adds an integration record, and snapshots of the generated content, to a plan
+ * @param plan The plan to add the manifest to
+ * @param record The integration record to save
+ * @param contents The generated content of each recorded file, keyed by manifest path
+ */
+export async function planIntegrationRecord(
+  plan: FilePlan,
+  record: IntegrationRecord,
+  contents: Map<string, string>
+): Promise<void> {
+  const manifestPath = path.join(plan.directory, MANIFEST_FILE);
+  const existing = await plan.read(manifestPath);
+  const manifest: IntegrationManifest = existing
+    ? { version: 1, integrations: JSON.parse(existing).integrations || {} }
+    : { version: 1, integrations: {} };
+  const previous = manifest.integrations[record.tool];
+
+  manifest.integrations[record.tool] = {
+    ...record,
+    // Keep the original creation time when re-integrating a tool
+    createdAt: previous ? previous.createdAt : record.createdAt,
+  };
+
+  await plan.write(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'internal');
+
+  for (const file of record.files) {
+    // Files kept from a previous run keep their previous snapshot
+    const content = contents.get(file.path);
+    if (content !== undefined && hashContent(content) === file.hash) {
+      await plan.write(getSnapshotPath(plan.directory, record.tool, file.path), content, 'internal');
+    }
+  }
+}
+
+/**
+ * Removes an integration record from the project manifest, deleting the manifest once it is empty
+ * @param directory The directory of the Next.js app
+ * @param tool The name of the tool
+ */
+export async function deleteIntegrationRecord(directory: string, tool: string): Promise<void> {
+  const manifest = await readManifest(directory);
+  delete manifest.integrations[tool];
+
+  await fs.remove(path.join(directory, SNAPSHOT_DIR, tool));
+
+  if (Object.keys(manifest.integrations).length === 0) {
+    await fs.remove(path.join(directory, MANIFEST_FILE));
+    await fs.remove(path.join(directory, SNAPSHOT_DIR));
+    return;
+  }
+
+  await writeManifest(directory, manifest);
+}
+
+/**
+ * Gets the path of the snapshot of a generated file
+ * @param directory The directory of the Next.js app
+ * @param tool The name of the tool
+ * @param filePath The manifest path of the generated file
+ * @returns The absolute path of the snapshot
+ */
+export function getSnapshotPath(directory: string, tool: string, filePath: string): string {
+  // Files of a shared workspace package live outside the app; keep their snapshots inside it
+  const segments = filePath.split('/').map(segment => segment === '..' ? '_up' : segment);
+  return path.join(directory, SNAPSHOT_DIR, tool, ...segments);
+}
+
+/**
+ * Reads the content a file had when it was generated
+ * @param directory The directory of the Next.js app
+ * @param tool The name of the tool
+ * @param filePath The manifest path of the generated file
+ * @returns A promise that resolves to the generated content, or null if no snapshot exists
+ */
+export async function readSnapshot(directory: string, tool: string, filePath: string): Promise<string | null> {
+  const snapshotPath = getSnapshotPath(directory, tool, filePath);
+
+  if (!await fs.pathExists(snapshotPath)) {
+    return null;
+  }
+
+  return fs.readFile(snapshotPath, 'utf8');
+}
+
+/**
+ * Compares a generated file on disk with the hash recorded in the manifest
+ * @param directory The directory of the Next.js app
+ * @param file The recorded file
+ * @returns A promise that resolves to the status of the file
+ */
+export async function getFileStatus(directory: string, file: ManifestFile): Promise<FileStatus> {
+  const filePath = path.join(directory, file.path);
+
+  if (!await fs.pathExists(filePath)) {
+    return 'missing';
+  }
+
+  const content = await fs.readFile(filePath);
+  return hashContent(content) === file.hash ? 'unchanged' : 'modified';
+}
+
+/**
+ * Converts an absolute path into the project-relative POSIX path stored in the manifest
+ * @param directory The directory of the Next.js app
+ * @param filePath The absolute path of the file
+ * @returns The relative path
+ */
+export function toManifestPath(directory: string, filePath: string): string {
+  return path.relative(directory, filePath).split(path.sep).join('/');
+}
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { mergeThreeWay } from './merge';
+
+const base = ['export class Acme {', '  request() {', '    return fetch(url);', '  }', '}'].join('\n');
+
+test('takes changes made on only one side', () => {
+  const current = base.replace('  request() {', '  // Edited by the user\n  request() {');
+  const incoming = base.replace('    return fetch(url);', '    return fetch(url, options);');
+
+  const result = mergeThreeWay(base, current, incoming);
+
+  assert.equal(result.conflicts, 0);
+  assert.equal(result.content, [
+    'export class Acme {',
+    '  // Edited by the user',
+    '  request() {',
+    '    return fetch(url, options);',
+    '  }',
+    '}',
+  ].join('\n'));
+});
+
+test('keeps identical changes on both sides once', () => {
+  const changed = base.replace('fetch(url)', 'fetch(url, options)');
+
+  assert.deepEqual(mergeThreeWay(base, changed, changed), { content: changed, conflicts: 0 });
+});
+
+test('marks regions both sides changed differently as conflicts', () => {
+  const current = base.replace('fetch(url)', 'fetch(url, { cache: "no-store" })');
+  const incoming = base.replace('fetch(url)', 'fetch(url, options)');
+
+  const result = mergeThreeWay(base, current, incoming, { current: 'yours', incoming: 'template' });
+
+  assert.equal(result.conflicts, 1);
+  assert.equal(result.content, [
+    'export class Acme {',
+    '  request() {',
+    '<<<<<<< yours',
+    '    return fetch(url, { cache: "no-store" });',
+    '=======',
+    '    return fetch(url, options);',
+    '>>>>>>> template',
+    '  }',
+    '}',
+  ].join('\n'));
+});
+
+test('uses the shared lines as the base when there is none', () => {
+  const current = `${base}\n// Added by the user`;
+  const incoming = base.replace('fetch(url)', 'fetch(url, options)');
+
+  const result = mergeThreeWay(null, current, incoming);
+
+  assert.equal(result.conflicts, 1);
+  assert.match(result.content, /<<<<<<< current\n {4}return fetch\(url\);\n=======\n {4}return fetch\(url, options\);\n>>>>>>> generated/);
+  assert.match(result.content, /\/\/ Added by the user$/);
+});
@@ -0,0 +1,140 @@
+import { diffArrays } from 'diff';
+
+/**
+ * Interface for the result of a three-way merge
+ */
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+/**
+ * Interface for the labels written on conflict markers
+ */
+export interface MergeLabels {
+  current: string;
+  incoming: string;
+}
+
+/**
+ * Merges two descendants of a common base, keeping changes from both sides
+ *
+ * Regions changed on only one side take that side's lines. Regions both sides changed
+ * differently are wrapped in git-style conflict markers. Without a base, the lines both
+ * versions share are used as the ancestor.
+ * @param base The common ancestor, e.g. the content originally generated, or null if unknown
+ * @param current The current content, e.g. the file as edited by the user
+ * @param incoming The incoming content, e.g. the newly generated file
+ * @param labels Labels for the conflict markers
+ * @returns The merged content and the number of conflicts
+ */
+export function mergeThreeWay(
+  base: string | null,
+  current: string,
+  incoming: string,
+  labels: MergeLabels = { current: 'current', incoming: 'generated' }
+): MergeResult {
+  const currentLines = current.split('\n');
+  const incomingLines = incoming.split('\n');
+  const baseLines = base === null ? commonLines(currentLines, incomingLines) : base.split('\n');
+
+  const currentMatches = matchLines(baseLines, currentLines);
+  const incomingMatches = matchLines(baseLines, incomingLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let currentIndex = 0;
+  let incomingIndex = 0;
+
+  while (true) {
+    // Find the next base line both sides kept
+    let stable = baseIndex;
+    while (stable < baseLines.length && (currentMatches[stable] < 0 || incomingMatches[stable] < 0)) {
+      stable++;
+    }
+
+    const currentEnd = stable < baseLines.length ? currentMatches[stable] : currentLines.length;
+    const incomingEnd = stable < baseLines.length ? incomingMatches[stable] : incomingLines.length;
+
+    const baseChunk = baseLines.slice(baseIndex, stable);
+    const currentChunk = currentLines.slice(currentIndex, currentEnd);
+    const incomingChunk = incomingLines.slice(incomingIndex, incomingEnd);
+
+    if (sameLines(currentChunk, baseChunk)) {
+      output.push(...incomingChunk);
+    } else if (sameLines(incomingChunk, baseChunk) || sameLines(currentChunk, incomingChunk)) {
+      output.push(...currentChunk);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.current}`,
+        ...currentChunk,
+        '=======',
+        ...incomingChunk,
+        `>>>>>>> ${labels.incoming}`
+      );
+    }
+
+    if (stable >= baseLines.length) {
+      break;
+    }
+
+    output.push(baseLines[stable]);
+    baseIndex = stable + 1;
+    currentIndex = currentEnd + 1;
+    incomingIndex = incomingEnd + 1;
+  }
+
+  return { content: output.join('\n'), conflicts };
+}
+
+/**
+ * Maps every base line to the line it matches in another version
+ * @param base The base lines
+ * @param other The lines of the other version
+ * @returns For each base line, the index of the matching line in the other version, or -1
+ */
+function matchLines(base: string[], other: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+  let baseIndex = 0;
+  let otherIndex = 0;
+
+  for (const change of diffArrays(base, other)) {
+    const count = change.value.length;
+
+    if (change.added) {
+      otherIndex += count;
+    } else if (change.removed) {
+      baseIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) {
+        matches[baseIndex++] = otherIndex++;
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Gets the lines two versions share, in order
+ * @param a The lines of the first version
+ * @param b The lines of the second version
+ * @returns The common lines
+ */
+function commonLines(a: string[], b: string[]): string[] {
+  return diffArrays(a, b)
+    .filter(change => !change.added && !change.removed)
+    .flatMap(change => change.value);
+}
+
+/**
+ * Checks whether two lists of lines are identical
+ * @param a The first list
+ * @param b The second list
+ * @returns True if the lists are identical
+ */
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createIdentifier, createToolNames, createUniqueToolNames } from './naming';
+
+test('derives every case from a kebab-case name', () => {
+  assert.deepEqual(createToolNames('getting-started'), {
+    kebab: 'getting-started',
+    camel: 'gettingStarted',
+    pascal: 'GettingStarted',
+    screaming: 'GETTING_STARTED',
+  });
+});
+
+test('splits camel case, acronyms and separators into words', () => {
+  assert.equal(createToolNames('OpenAIChat').kebab, 'open-ai-chat');
+  assert.equal(createToolNames('my_tool.v2').kebab, 'my-tool-v2');
+  assert.equal(createToolNames('Café Tool').camel, 'cafeTool');
+});
+
+test('prefixes identifiers that would start with a digit', () => {
+  const names = createToolNames('3d-viewer');
+
+  assert.equal(names.kebab, '3d-viewer');
+  assert.equal(names.camel, 'tool3dViewer');
+  assert.equal(names.pascal, 'Tool3dViewer');
+  assert.equal(names.screaming, 'TOOL_3D_VIEWER');
+});
+
+test('suffixes bindings that are reserved words or generated variables', () => {
+  assert.equal(createToolNames('new').camel, 'newClient');
+  assert.equal(createToolNames('fetch').camel, 'fetchClient');
+  assert.equal(createToolNames('request').pascal, 'Request');
+});
+
+test('derives identifiers that keep reserved words', () => {
+  assert.equal(createIdentifier('delete'), 'delete');
+  assert.equal(createIdentifier('list-pets'), 'listPets');
+  assert.equal(createIdentifier('2fa'), 'tool2fa');
+});
+
+test('falls back to a generic name when nothing usable is left', () => {
+  assert.equal(createToolNames('---').kebab, 'external-tool');
+});
+
+test('numbers names other integrations already use', () => {
+  const taken = new Set(['docs', 'docs-2']);
+
+  assert.equal(createUniqueToolNames('docs', kebab => taken.has(kebab)).kebab, 'docs-3');
+  assert.equal(createUniqueToolNames('api', kebab => taken.has(kebab)).kebab, 'api');
+});
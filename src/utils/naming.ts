@@ -0,0 +1,142 @@
+/**
+ * Name used when nothing usable can be derived from a tool name
+ */
+const FALLBACK_WORDS = ['external', 'tool'];
+
+/**
+ * Words that cannot be used as the binding of an integration
+ *
+ * Besides JavaScript reserved words, this covers the globals and local variables the
+ * generated files use, which a binding of the same name would shadow or collide with.
+ */
+const RESERVED_BINDINGS = new Set([
+  // Reserved words, including strict mode and future reserved words
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger',
+  'default', 'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally',
+  'for', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let',
+  'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while',
+  'with', 'yield',
+  // Globals and imports used by the generated files
+  'console', 'fetch', 'globalThis', 'process', 'window', 'document', 'useEffect', 'useState',
+  'handler',
+  // Variables declared next to the binding in the generated files
+  'body', 'className', 'config', 'data', 'endpoint', 'err', 'error', 'loading', 'options',
+  'query', 'req', 'request', 'res', 'response', 'result', 'searchParams', 'title', 'url',
+]);
+
+/**
+ * Interface for the names an integration is generated under
+ *
+ * - kebab: file and route path segment, manifest key, e.g. getting-started
+ * - camel: binding of the integration instance, e.g. gettingStarted
+ * - pascal: prefix of class, type and component names, e.g. GettingStarted
+ * - screaming: prefix of environment variables, e.g. GETTING_STARTED
+ */
+export interface ToolNames {
+  kebab: string;
+  camel: string;
+  pascal: string;
+  screaming: string;
+}
+
+/**
+ * Derives every name an integration needs from a tool name, URL segment or --name value
+ * @param name The name to derive the names from, in any case or separator style
+ * @returns The names of the tool
+ */
+export function createToolNames(name: string): ToolNames {
+  const words = getWords(name);
+  const identifierWords = getIdentifierWords(words);
+
+  let camel = joinCamelCase(identifierWords);
+  if (RESERVED_BINDINGS.has(camel)) {
+    camel = `${camel}Client`;
+  }
+
+  return {
+    kebab: words.join('-'),
+    camel,
+    pascal: identifierWords.map(capitalize).join(''),
+    screaming: identifierWords.join('_').toUpperCase(),
+  };
+}
+
+/**
+ * Derives a camelCase identifier from a name, such as a method name, without avoiding reserved words
+ * @param name The name to derive the identifier from, in any case or separator style
+ * @returns The identifier
+ */
+export function createIdentifier(name: string): string {
+  return joinCamelCase(getIdentifierWords(getWords(name)));
+}
+
+/**
+ * Finds names that no other integration uses, numbering the kebab-case name if needed
+ * @param name The name to derive the names from
+ * @param isTaken Checks whether a kebab-case name is used by another integration
+ * @returns The names of the tool
+ */
+export function createUniqueToolNames(name: string, isTaken: (kebab: string) => boolean): ToolNames {
+  const base = createToolNames(name);
+  let names = base;
+
+  for (let suffix = 2; isTaken(names.kebab); suffix++) {
+    names = createToolNames(`${base.kebab}-${suffix}`);
+  }
+
+  return names;
+}
+
+/**
+ * Gets the words of a name, or the fallback words if it has none
+ * @param name The name to split
+ * @returns The words of the name
+ */
+function getWords(name: string): string[] {
+  const words = splitWords(name);
+  return words.length > 0 ? words : FALLBACK_WORDS;
+}
+
+/**
+ * Prefixes words that start with a digit, which identifiers and environment variables cannot
+ * @param words The words of a name
+ * @returns The words to build identifiers from
+ */
+function getIdentifierWords(words: string[]): string[] {
+  return /^[0-9]/.test(words[0]) ? ['tool', ...words] : words;
+}
+
+/**
+ * Joins words into camelCase
+ * @param words The lowercase words
+ * @returns The camelCase name
+ */
+function joinCamelCase(words: string[]): string {
+  return words.map((word, index) => index === 0 ? word : capitalize(word)).join('');
+}
+
+/**
+ * Splits a name into lowercase ASCII words
+ * @param name The name to split
+ * @returns The words of the name
+ */
+function splitWords(name: string): string[] {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Capitalizes the first letter of a word
+ * @param word The word to capitalize
+ * @returns The capitalized word
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
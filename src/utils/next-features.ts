@@ -0,0 +1,70 @@
+import { NextRouter } from './project-layout';
+
+/**
+ * Oldest and newest major versions of Next.js the templates are written for
+ */
+export const SUPPORTED_NEXT_VERSIONS = { oldest: 13, newest: 15 };
+
+/**
+ * Interface for the behavior of a Next.js version that generated files depend on
+ *
+ * - routeHandlers: app/ route handlers exist (13.2)
+ * - appRouter: the App Router is stable (13.4)
+ * - asyncRequestApis: params, searchParams, cookies() and headers() are Promises (15)
+ * - cachedByDefault: GET route handlers and fetch() are cached unless opted out (13 and 14)
+ */
+export interface NextFeatures {
+  version: string;
+  major: number;
+  routeHandlers: boolean;
+  appRouter: boolean;
+  asyncRequestApis: boolean;
+  cachedByDefault: boolean;
+}
+
+/**
+ * Gets the features of a Next.js version, assuming the newest supported version when it is unknown
+ * @param version The detected Next.js version
+ * @returns The features of the version
+ */
+export function getNextFeatures(version: string | null): NextFeatures {
+  const target = version || `${SUPPORTED_NEXT_VERSIONS.newest}.0.0`;
+  const [major, minor = 0] = target.split('.').map(part => parseInt(part, 10) || 0);
+
+  return {
+    version: target,
+    major,
+    routeHandlers: major > 13 || (major === 13 && minor >= 2),
+    appRouter: major > 13 || (major === 13 && minor >= 4),
+    asyncRequestApis: major >= 15,
+    cachedByDefault: major < 15,
+  };
+}
+
+/**
+ * Lists what the generated files may get wrong for a Next.js version
+ * @param version The detected Next.js version
+ * @param router The router files are generated for
+ * @returns The warnings, empty for a supported version
+ */
+export function getNextVersionWarnings(version: string | null, router: NextRouter): string[] {
+  const { oldest, newest } = SUPPORTED_NEXT_VERSIONS;
+  const features = getNextFeatures(version);
+  const warnings: string[] = [];
+
+  if (!version) {
+    warnings.push(`Could not determine the Next.js version; generating files for Next.js ${newest}.`);
+  } else if (features.major < oldest) {
+    warnings.push(`Next.js ${version} is not supported; the generated files need Next.js ${oldest} or later.`);
+  } else if (features.major > newest) {
+    warnings.push(`Next.js ${version} is newer than the versions the templates were written for (${oldest} to ${newest}); review the generated files.`);
+  }
+
+  if (router === 'app' && !features.routeHandlers) {
+    warnings.push(`Next.js ${version} has no App Router route handlers, which need 13.2 or later. Pass --router pages or upgrade Next.js.`);
+  } else if (router === 'app' && !features.appRouter) {
+    warnings.push(`The App Router is experimental in Next.js ${version}; it is stable from 13.4.`);
+  }
+
+  return warnings;
+}
@@ -1,44 +1,250 @@
 import * as fs from 'fs-extra';
 import * as path from 'node:path';
+import { detectProjectLayout, NextRouter, ProjectLayout } from './project-layout';
 
 /**
- * Checks if the given directory contains a Next.js application
+ * Config files Next.js loads, in the order it looks for them
+ */
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.cjs', 'next.config.ts', 'next.config.mts'];
+
+/**
+ * Tailwind CSS config files
+ */
+const TAILWIND_CONFIG_FILES = ['tailwind.config.js', 'tailwind.config.cjs', 'tailwind.config.mjs', 'tailwind.config.ts'];
+
+/**
+ * Lockfiles of each package manager, in order of precedence
+ */
+export const PACKAGE_MANAGER_LOCKFILES: [PackageManager, string][] = [
+  ['pnpm', 'pnpm-lock.yaml'],
+  ['yarn', 'yarn.lock'],
+  ['bun', 'bun.lockb'],
+  ['bun', 'bun.lock'],
+  ['npm', 'package-lock.json'],
+];
+
+/**
+ * Package managers a project can use
+ */
+export type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+/**
+ * Package managers accepted by --package-manager
+ */
+export const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'yarn', 'pnpm', 'bun'];
+
+/**
+ * Module format of a Next.js config file
+ */
+export type NextConfigFormat = 'cjs' | 'esm' | 'ts';
+
+/**
+ * Interface for everything the integrator needs to know about a project
+ */
+export interface NextProjectProfile extends ProjectLayout {
+  nextVersion: string | null;
+  reactVersion: string | null;
+  usesSrcDir: boolean;
+  nextConfigFile: string | null;
+  nextConfigFormat: NextConfigFormat | null;
+  tailwind: boolean;
+  packageManager: PackageManager;
+  nextAuth: boolean;
+  prisma: boolean;
+}
+
+/**
+ * Detects a Next.js application and describes it
  * @param directory The directory to check
- * @returns A promise that resolves to true if a Next.js app is detected, false otherwise
+ * @returns A promise that resolves to the profile of the app, or null if the directory is not a Next.js app
+ */
+export async function detectNextProject(directory: string): Promise<NextProjectProfile | null> {
+  const packageJson = await readPackageJson(directory);
+
+  if (!getDependencyRange(packageJson, 'next')) {
+    return null;
+  }
+
+  const profile = await readProjectProfile(directory);
+
+  // A next dependency alone may belong to a workspace root rather than an app
+  if (!profile.nextConfigFile && profile.routers.length === 0) {
+    return null;
+  }
+
+  return profile;
+}
+
+/**
+ * Describes a project whether or not it is a Next.js application yet
+ * @param directory The directory of the project
+ * @returns A promise that resolves to the profile of the project
+ */
+export async function readProjectProfile(directory: string): Promise<NextProjectProfile> {
+  const layout = await detectProjectLayout(directory);
+  const packageJson = await readPackageJson(directory);
+
+  let nextConfigFile: string | null = null;
+  for (const file of NEXT_CONFIG_FILES) {
+    if (await fs.pathExists(path.join(directory, file))) {
+      nextConfigFile = path.join(directory, file);
+      break;
+    }
+  }
+
+  let tailwind = getDependencyRange(packageJson, 'tailwindcss') !== null;
+  for (const file of TAILWIND_CONFIG_FILES) {
+    tailwind = tailwind || await fs.pathExists(path.join(directory, file));
+  }
+
+  return {
+    ...layout,
+    nextVersion: getInstalledVersion(directory, 'next') || getMinimumVersion(getDependencyRange(packageJson, 'next')),
+    reactVersion: getInstalledVersion(directory, 'react') || getMinimumVersion(getDependencyRange(packageJson, 'react')),
+    usesSrcDir: layout.sourceDir === path.join(directory, 'src'),
+    nextConfigFile,
+    nextConfigFormat: nextConfigFile ? getConfigFormat(nextConfigFile, packageJson) : null,
+    tailwind,
+    packageManager: await findPackageManager(directory) || 'npm',
+    nextAuth: getDependencyRange(packageJson, 'next-auth') !== null || getDependencyRange(packageJson, '@auth/nextjs') !== null,
+    prisma: getDependencyRange(packageJson, 'prisma') !== null
+      || getDependencyRange(packageJson, '@prisma/client') !== null
+      || await fs.pathExists(path.join(directory, 'prisma', 'schema.prisma')),
+  };
+}
+
+/**
+ * Describes a profile in one line for the CLI
+ * @param profile The profile of the project
+ * @returns A summary like "Next.js 14.2.3, App Router, TypeScript, Tailwind CSS"
  */
-export async function isNextJsApp(directory: string): Promise<boolean> {
+export function describeProject(profile: NextProjectProfile): string {
+  const routerNames: Record<NextRouter, string> = { app: 'App Router', pages: 'Pages Router' };
+
+  return [
+    profile.nextVersion ? `Next.js ${profile.nextVersion}` : 'Next.js',
+    ...profile.routers.map(info => routerNames[info.router]),
+    profile.typescript ? 'TypeScript' : 'JavaScript',
+    profile.usesSrcDir ? 'src/' : '',
+    profile.tailwind ? 'Tailwind CSS' : '',
+    profile.nextAuth ? 'NextAuth.js' : '',
+    profile.prisma ? 'Prisma' : '',
+    profile.packageManager,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Reads the package.json of a project
+ * @param directory The directory of the project
+ * @returns A promise that resolves to the package.json, or an empty object if there is none
+ */
+export async function readPackageJson(directory: string): Promise<Record<string, any>> {
+  const packageJsonPath = path.join(directory, 'package.json');
+
+  if (!await fs.pathExists(packageJsonPath)) {
+    return {};
+  }
+
   try {
-    // Check for package.json
-    const packageJsonPath = path.join(directory, 'package.json');
-    if (!await fs.pathExists(packageJsonPath)) {
-      return false;
+    return await fs.readJson(packageJsonPath);
+  } catch (error) {
+    throw new Error(`Could not read package.json: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Gets the version range a package.json declares for a dependency
+ * @param packageJson The package.json
+ * @param name The name of the dependency
+ * @returns The declared range, or null if the dependency is not declared
+ */
+function getDependencyRange(packageJson: Record<string, any>, name: string): string | null {
+  const dependencies = { ...packageJson.devDependencies, ...packageJson.dependencies };
+  return typeof dependencies[name] === 'string' ? dependencies[name] : null;
+}
+
+/**
+ * Gets the version of a package installed for a project, looking in parent node_modules as Node does
+ * @param directory The directory of the project
+ * @param name The name of the package
+ * @returns The installed version, or null if the package is not installed
+ */
+function getInstalledVersion(directory: string, name: string): string | null {
+  try {
+    const packageJsonPath = require.resolve(`${name}/package.json`, { paths: [directory] });
+    return fs.readJsonSync(packageJsonPath).version || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Gets the lowest version a range like ^14.1.0 allows
+ * @param range The declared range
+ * @returns The version, or null for ranges without one like latest or a workspace reference
+ */
+function getMinimumVersion(range: string | null): string | null {
+  const match = range?.match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  return match ? `${match[1]}.${match[2] || 0}.${match[3] || 0}` : null;
+}
+
+/**
+ * Gets the module format of a Next.js config file
+ * @param configFile The path of the config file
+ * @param packageJson The package.json of the project
+ * @returns The module format
+ */
+function getConfigFormat(configFile: string, packageJson: Record<string, any>): NextConfigFormat {
+  const extension = path.extname(configFile);
+
+  if (extension === '.ts' || extension === '.mts') {
+    return 'ts';
+  }
+  if (extension === '.mjs') {
+    return 'esm';
+  }
+  if (extension === '.cjs') {
+    return 'cjs';
+  }
+
+  return packageJson.type === 'module' ? 'esm' : 'cjs';
+}
+
+/**
+ * Finds the package manager of a project from a packageManager field or lockfile
+ *
+ * Workspace packages share the lockfile and packageManager field of the workspace root,
+ * which may be several directories up, e.g. from apps/web, so every parent directory is
+ * checked, nearest first.
+ * @param directory The directory of the project
+ * @returns A promise that resolves to the package manager, or null if nothing points to one
+ */
+export async function findPackageManager(directory: string): Promise<PackageManager | null> {
+  let current = path.resolve(directory);
+
+  while (true) {
+    let declared = '';
+    try {
+      const packageJson = await readPackageJson(current);
+      declared = typeof packageJson.packageManager === 'string' ? packageJson.packageManager.split('@')[0] : '';
+    } catch (error) {
+      // An unreadable package.json names no package manager; the lockfiles still may
     }
 
-    // Read package.json and check for Next.js dependency
-    const packageJson = await fs.readJson(packageJsonPath);
-    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
-    
-    if (!dependencies.next) {
-      return false;
+    if ((PACKAGE_MANAGERS as string[]).includes(declared)) {
+      return declared as PackageManager;
     }
 
-    // Check for next.config.js or next.config.mjs
-    const nextConfigPath = path.join(directory, 'next.config.js');
-    const nextConfigMjsPath = path.join(directory, 'next.config.mjs');
-    
-    if (!(await fs.pathExists(nextConfigPath)) && !(await fs.pathExists(nextConfigMjsPath))) {
-      // If no config file, check for pages or app directory
-      const pagesDir = path.join(directory, 'pages');
-      const appDir = path.join(directory, 'app');
-      
-      if (!(await fs.pathExists(pagesDir)) && !(await fs.pathExists(appDir))) {
-        return false;
+    for (const [manager, lockfile] of PACKAGE_MANAGER_LOCKFILES) {
+      if (await fs.pathExists(path.join(current, lockfile))) {
+        return manager;
       }
     }
 
-    return true;
-  } catch (error) {
-    console.error('Error checking for Next.js app:', error);
-    return false;
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
   }
 }
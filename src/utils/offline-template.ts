@@ -0,0 +1,344 @@
+import { BootstrapPreset, generateExampleRoute, PresetContext, PresetFile, sourcePath } from './presets';
+
+/**
+ * Versions the offline template pins, matching what create-next-app 15 installs
+ */
+export const OFFLINE_TEMPLATE_VERSIONS: Record<string, string> = {
+  next: '^15.1.0',
+  react: '^19.0.0',
+  'react-dom': '^19.0.0',
+  typescript: '^5',
+  '@types/node': '^20',
+  '@types/react': '^19',
+  '@types/react-dom': '^19',
+  tailwindcss: '^3.4.1',
+  postcss: '^8',
+  eslint: '^8',
+  'eslint-config-next': '^15.1.0',
+};
+
+/**
+ * Version range preset dependencies get in the offline template, resolved on install
+ */
+const PRESET_DEPENDENCY_RANGE = 'latest';
+
+/**
+ * Interface for the choices of a new app that the offline template depends on
+ */
+export interface OfflineTemplateSettings extends PresetContext {
+  tailwind: boolean;
+  eslint: boolean;
+  turbopack: boolean;
+}
+
+/**
+ * Generates a complete Next.js project without create-next-app or the registry
+ *
+ * The preset's dependencies are declared in package.json so a later install picks them up;
+ * its files are not included.
+ * @param appName The name of the app, used for package.json and the page title
+ * @param settings The choices of the new app
+ * @param preset The preset the app is bootstrapped with
+ * @returns The files of the project, relative to the app directory
+ */
+export function getOfflineTemplateFiles(appName: string, settings: OfflineTemplateSettings, preset: BootstrapPreset): PresetFile[] {
+  return [
+    generatePackageJson(appName, settings, preset),
+    ...generateConfigFiles(settings),
+    ...(settings.router === 'app' ? generateAppRouterFiles(appName, settings) : generatePagesRouterFiles(appName, settings)),
+    generateExampleRoute(settings),
+    {
+      path: '.gitignore',
+      content: `# dependencies
+/node_modules
+
+# next.js
+/.next/
+/out/
+
+# production
+/build
+
+# debug
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+
+# env files
+.env*
+
+# typescript
+*.tsbuildinfo
+next-env.d.ts
+`,
+    },
+  ];
+}
+
+/**
+ * Generates the package.json of the project
+ * @param appName The name of the app
+ * @param settings The choices of the new app
+ * @param preset The preset the app is bootstrapped with
+ * @returns The package.json file
+ */
+function generatePackageJson(appName: string, settings: OfflineTemplateSettings, preset: BootstrapPreset): PresetFile {
+  const dependencies = ['next', 'react', 'react-dom'];
+  const devDependencies = [
+    ...(settings.typescript ? ['typescript', '@types/node', '@types/react', '@types/react-dom'] : []),
+    ...(settings.tailwind ? ['tailwindcss', 'postcss'] : []),
+    ...(settings.eslint ? ['eslint', 'eslint-config-next'] : []),
+  ];
+
+  const packageJson = {
+    name: appName.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[._-]+/, '') || 'nextjs-app',
+    version: '0.1.0',
+    private: true,
+    scripts: {
+      dev: settings.turbopack ? 'next dev --turbopack' : 'next dev',
+      build: 'next build',
+      start: 'next start',
+      ...(settings.eslint ? { lint: 'next lint' } : {}),
+    },
+    dependencies: getVersions(dependencies, preset.dependencies),
+    devDependencies: getVersions(devDependencies, preset.devDependencies),
+  };
+
+  return { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` };
+}
+
+/**
+ * Gets the version ranges of dependencies, sorted by name as package managers write them
+ * @param pinned Dependencies of the template, pinned in OFFLINE_TEMPLATE_VERSIONS
+ * @param added Dependencies added by the preset
+ * @returns The dependencies and their ranges
+ */
+function getVersions(pinned: string[], added: string[]): Record<string, string> {
+  const versions: Record<string, string> = {};
+
+  for (const name of pinned) {
+    versions[name] = OFFLINE_TEMPLATE_VERSIONS[name];
+  }
+  for (const name of added) {
+    versions[name] = versions[name] || PRESET_DEPENDENCY_RANGE;
+  }
+
+  return Object.fromEntries(Object.entries(versions).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Generates the TypeScript, Next.js, Tailwind CSS and ESLint config files
+ * @param settings The choices of the new app
+ * @returns The config files
+ */
+function generateConfigFiles(settings: OfflineTemplateSettings): PresetFile[] {
+  const files: PresetFile[] = [];
+  const paths = { [settings.importAlias]: [settings.srcDir ? './src/*' : './*'] };
+
+  if (settings.typescript) {
+    files.push({
+      path: 'tsconfig.json',
+      content: `${JSON.stringify({
+        compilerOptions: {
+          target: 'ES2017',
+          lib: ['dom', 'dom.iterable', 'esnext'],
+          allowJs: true,
+          skipLibCheck: true,
+          strict: true,
+          noEmit: true,
+          esModuleInterop: true,
+          module: 'esnext',
+          moduleResolution: 'bundler',
+          resolveJsonModule: true,
+          isolatedModules: true,
+          jsx: 'preserve',
+          incremental: true,
+          ...(settings.router === 'app' ? { plugins: [{ name: 'next' }] } : {}),
+          paths,
+        },
+        include: ['next-env.d.ts', '**/*.ts', '**/*.tsx', '.next/types/**/*.ts'],
+        exclude: ['node_modules'],
+      }, null, 2)}\n`,
+    });
+    files.push({
+      path: 'next-env.d.ts',
+      content: `/// <reference types="next" />
+/// <reference types="next/image-types/global" />
+
+// NOTE: This file should not be edited
+// see https://nextjs.org/docs/app/api-reference/config/typescript for more information.
+`,
+    });
+    files.push({
+      path: 'next.config.ts',
+      content: `import type { NextConfig } from 'next';
+
+const nextConfig: NextConfig = {};
+
+export default nextConfig;
+`,
+    });
+  } else {
+    files.push({ path: 'jsconfig.json', content: `${JSON.stringify({ compilerOptions: { paths } }, null, 2)}\n` });
+    files.push({
+      path: 'next.config.mjs',
+      content: `/** @type {import('next').NextConfig} */
+const nextConfig = {};
+
+export default nextConfig;
+`,
+    });
+  }
+
+  if (settings.tailwind) {
+    const root = settings.srcDir ? './src' : '.';
+    const content = ['pages', 'components', 'app'].map(dir => `    '${root}/${dir}/**/*.{js,ts,jsx,tsx,mdx}',`).join('\n');
+
+    files.push({
+      path: settings.typescript ? 'tailwind.config.ts' : 'tailwind.config.mjs',
+      content: settings.typescript
+        ? `import type { Config } from 'tailwindcss';
+
+const config: Config = {
+  content: [
+${content}
+  ],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
+
+export default config;
+`
+        : `/** @type {import('tailwindcss').Config} */
+const config = {
+  content: [
+${content}
+  ],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
+
+export default config;
+`,
+    });
+    files.push({
+      path: 'postcss.config.mjs',
+      content: `/** @type {import('postcss-load-config').Config} */
+const config = {
+  plugins: {
+    tailwindcss: {},
+  },
+};
+
+export default config;
+`,
+    });
+  }
+
+  if (settings.eslint) {
+    const extendsConfig = settings.typescript ? ['next/core-web-vitals', 'next/typescript'] : ['next/core-web-vitals'];
+    files.push({ path: '.eslintrc.json', content: `${JSON.stringify({ extends: extendsConfig }, null, 2)}\n` });
+  }
+
+  return files;
+}
+
+/**
+ * Generates the root layout, home page and global styles of an App Router project
+ * @param appName The name of the app
+ * @param settings The choices of the new app
+ * @returns The app files
+ */
+function generateAppRouterFiles(appName: string, settings: OfflineTemplateSettings): PresetFile[] {
+  const pagePath = sourcePath(settings, ['app', 'page'], true);
+
+  return [
+    {
+      path: sourcePath(settings, ['app', 'layout'], true),
+      content: `${settings.typescript ? "import type { Metadata } from 'next';\n" : ''}import './globals.css';
+
+export const metadata${settings.typescript ? ': Metadata' : ''} = {
+  title: '${appName.replace(/['\\]/g, '\\$&')}',
+  description: 'Generated by nextjs-integrator',
+};
+
+export default function RootLayout(${settings.typescript ? '{ children }: Readonly<{ children: React.ReactNode }>' : '{ children }'}) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
+`,
+    },
+    { path: pagePath, content: generateHomePage(appName, pagePath, settings) },
+    { path: sourcePath(settings, ['app', 'globals']).replace(/\.[jt]s$/, '.css'), content: generateGlobalStyles(settings) },
+  ];
+}
+
+/**
+ * Generates the custom App, home page and global styles of a Pages Router project
+ * @param appName The name of the app
+ * @param settings The choices of the new app
+ * @returns The pages files
+ */
+function generatePagesRouterFiles(appName: string, settings: OfflineTemplateSettings): PresetFile[] {
+  const pagePath = sourcePath(settings, ['pages', 'index'], true);
+
+  return [
+    {
+      path: sourcePath(settings, ['pages', '_app'], true),
+      content: `${settings.typescript ? "import type { AppProps } from 'next/app';\n" : ''}import '../styles/globals.css';
+
+export default function App(${settings.typescript ? '{ Component, pageProps }: AppProps' : '{ Component, pageProps }'}) {
+  return <Component {...pageProps} />;
+}
+`,
+    },
+    { path: pagePath, content: generateHomePage(appName, pagePath, settings) },
+    { path: sourcePath(settings, ['styles', 'globals']).replace(/\.[jt]s$/, '.css'), content: generateGlobalStyles(settings) },
+  ];
+}
+
+/**
+ * Generates the home page
+ * @param appName The name of the app
+ * @param pagePath The path of the page, shown as the file to edit
+ * @param settings The choices of the new app
+ * @returns The content of the page
+ */
+function generateHomePage(appName: string, pagePath: string, settings: OfflineTemplateSettings): string {
+  const mainClass = settings.tailwind ? ' className="flex min-h-screen flex-col items-center justify-center gap-4 p-8"' : '';
+  const titleClass = settings.tailwind ? ' className="text-3xl font-bold"' : '';
+
+  return `export default function Home() {
+  return (
+    <main${mainClass}>
+      <h1${titleClass}>${appName.replace(/[{}<>]/g, '')}</h1>
+      <p>
+        Get started by editing <code>${pagePath}</code>.
+      </p>
+    </main>
+  );
+}
+`;
+}
+
+/**
+ * Generates the global styles
+ * @param settings The choices of the new app
+ * @returns The content of the stylesheet
+ */
+function generateGlobalStyles(settings: OfflineTemplateSettings): string {
+  const base = `body {
+  margin: 0;
+  font-family: system-ui, -apple-system, sans-serif;
+}
+`;
+
+  return settings.tailwind ? `@tailwind base;\n@tailwind components;\n@tailwind utilities;\n\n${base}` : base;
+}
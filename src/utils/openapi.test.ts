@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { convertApiDocument } from './openapi';
+
+const petstore = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store' },
+  servers: [{ url: '/{version}', variables: { version: { default: 'v1' } } }],
+  components: {
+    schemas: {
+      Status: { type: 'string', enum: ['available', 'sold'] },
+      Pet: { type: 'object', required: ['name'], properties: { id: { type: 'integer' }, name: { type: 'string' } } },
+    },
+    parameters: {
+      Limit: { name: 'limit', in: 'query', schema: { type: 'integer' } },
+    },
+    securitySchemes: {
+      basic: { type: 'http', scheme: 'basic' },
+      key: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    },
+  },
+  security: [{ key: [] }],
+  paths: {
+    '/pets': {
+      parameters: [{ $ref: '#/components/parameters/Limit' }],
+      get: {
+        operationId: 'listPets',
+        summary: 'List pets',
+        parameters: [
+          { name: 'status', in: 'query', required: true, schema: { $ref: '#/components/schemas/Status' } },
+          { name: 'X-Trace', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } } },
+        },
+      },
+      post: {
+        operationId: 'addPet',
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        responses: { 201: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+      },
+    },
+    '/pets/{petId}': {
+      get: {
+        parameters: [{ name: 'petId', in: 'path', schema: { type: 'integer' } }],
+        responses: { default: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } },
+      },
+    },
+  },
+};
+
+test('converts the schemas, base URL and auth of an OpenAPI 3 document', () => {
+  const api = convertApiDocument(petstore, 'https://docs.acme.test/openapi.json');
+
+  assert.equal(api.format, 'OpenAPI 3.0.3');
+  assert.equal(api.title, 'Pet Store');
+  assert.equal(api.baseUrl, 'https://docs.acme.test/v1');
+  assert.deepEqual(api.auth, { type: 'apiKey', name: 'X-API-Key', in: 'header' });
+  assert.deepEqual(api.schemas.Status, { type: 'string', enum: ['available', 'sold'] });
+  assert.deepEqual(api.schemas.Pet.required, ['name']);
+});
+
+test('converts operations with referenced parameters and schemas, leaving out header parameters', () => {
+  const api = convertApiDocument(petstore, 'https://docs.acme.test/openapi.json');
+  const [listPets, addPet, getPet] = api.operations;
+
+  assert.deepEqual(api.operations.map(operation => `${operation.method} ${operation.path} ${operation.name}`), [
+    'GET /pets listPets',
+    'POST /pets addPet',
+    'GET /pets/{petId} getPetsByPetId',
+  ]);
+  assert.deepEqual(listPets.parameters.map(parameter => [parameter.name, parameter.in, parameter.required]), [
+    ['limit', 'query', false],
+    ['status', 'query', true],
+  ]);
+  assert.deepEqual(listPets.parameters[1].schema, { ref: 'Status' });
+  assert.deepEqual(listPets.response, { type: 'array', items: { ref: 'Pet' } });
+  assert.deepEqual(addPet.requestBody, { ref: 'Pet' });
+  assert.equal(addPet.requestBodyRequired, true);
+  assert.equal(getPet.parameters[0].required, true);
+  assert.deepEqual(getPet.response, { ref: 'Pet' });
+});
+
+test('converts a Swagger 2 document and skips operations that send form data', t => {
+  const warn = t.mock.method(console, 'warn', () => undefined);
+  const api = convertApiDocument({
+    swagger: '2.0',
+    host: 'api.acme.test',
+    basePath: '/v2/',
+    schemes: ['http', 'https'],
+    securityDefinitions: { token: { type: 'oauth2', flow: 'application', tokenUrl: 'https://auth.acme.test/token', scopes: { read: 'Read' } } },
+    definitions: { Item: { type: 'object', properties: { id: { type: 'string' } } } },
+    paths: {
+      '/items': {
+        get: {
+          operationId: 'listItems',
+          parameters: [{ name: 'ids', in: 'query', type: 'array', items: { type: 'integer' } }],
+          responses: { 200: { schema: { type: 'array', items: { $ref: '#/definitions/Item' } } } },
+        },
+        post: {
+          operationId: 'createItem',
+          parameters: [{ name: 'item', in: 'body', required: true, schema: { $ref: '#/definitions/Item' } }],
+        },
+      },
+      '/upload': {
+        post: { parameters: [{ name: 'file', in: 'formData', type: 'file' }] },
+      },
+    },
+  }, 'https://docs.acme.test/swagger.json');
+
+  assert.equal(api.format, 'Swagger 2.0');
+  assert.equal(api.baseUrl, 'https://api.acme.test/v2');
+  assert.deepEqual(api.auth, { type: 'oauth2', tokenUrl: 'https://auth.acme.test/token', scopes: ['read'] });
+  assert.deepEqual(api.operations.map(operation => operation.name), ['listItems', 'createItem']);
+  assert.deepEqual(api.operations[0].parameters[0].schema, { type: 'array', items: { type: 'integer' } });
+  assert.deepEqual(api.operations[1].requestBody, { ref: 'Item' });
+  assert.equal(warn.mock.callCount(), 1);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /POST \/upload/);
+});
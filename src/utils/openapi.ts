@@ -0,0 +1,578 @@
+import chalk from 'chalk';
+import { parse as parseYaml } from 'yaml';
+import {
+  ApiAuth,
+  ApiDescription,
+  ApiOperation,
+  ApiParameter,
+  ApiSchema,
+  createOperationNames,
+  createSchemaNames,
+  HttpMethod,
+} from './api-description';
+import { ToolAnalysisResult } from './stagehand-integration';
+
+/**
+ * How long fetching an API document may take
+ */
+const FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * How many linked documents are tried when a page links to several
+ */
+const MAX_LINKED_DOCUMENTS = 5;
+
+/**
+ * File names and paths API documents are usually published at
+ */
+const API_DOCUMENT_PATTERN = /(^|\/)((openapi|swagger)[\w.-]*\.(json|ya?ml)|api-docs(\.json)?|openapi)$/i;
+
+/**
+ * Lowercase HTTP methods of an OpenAPI path item
+ */
+const PATH_ITEM_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+/**
+ * How deeply schemas referenced by pointers other than named schemas are inlined
+ */
+const MAX_INLINE_DEPTH = 20;
+
+/**
+ * Interface for what converting a document needs to resolve references
+ */
+interface DocumentContext {
+  document: Record<string, any>;
+  schemaPrefix: string;
+  schemaNames: Map<string, string>;
+}
+
+/**
+ * Checks whether a URL path segment is the file name of an API document
+ * @param segment The last segment of a URL path
+ * @returns True if the segment looks like openapi.json, swagger.yaml or api-docs
+ */
+export function isApiDocumentPath(segment: string): boolean {
+  return API_DOCUMENT_PATTERN.test(segment);
+}
+
+/**
+ * Finds the OpenAPI or Swagger description of a tool
+ *
+ * The URL itself may be the document, in JSON or YAML, or a page such as Swagger UI that
+ * links to it. Anything that cannot be fetched or parsed means there is no description.
+ * @param url The URL of the tool
+ * @param toolInfo Information about the tool, whose page links are searched for documents
+ * @returns A promise that resolves to the API, or null if none was found
+ */
+export async function findApiDescription(url: string, toolInfo: ToolAnalysisResult): Promise<ApiDescription | null> {
+  let text: string;
+  try {
+    text = await fetchText(url);
+  } catch (error) {
+    console.warn(chalk.yellow(`Could not fetch ${url} to look for an API description: ${error instanceof Error ? error.message : String(error)}`));
+    return null;
+  }
+
+  const document = parseDocument(text);
+  if (document && isApiDocument(document)) {
+    return convertApiDocument(document, url);
+  }
+
+  for (const link of findDocumentLinks(url, text, toolInfo).slice(0, MAX_LINKED_DOCUMENTS)) {
+    try {
+      const linked = parseDocument(await fetchText(link));
+      if (linked && isApiDocument(linked)) {
+        return convertApiDocument(linked, link);
+      }
+    } catch (error) {
+      console.warn(chalk.yellow(`Could not fetch ${link}: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Converts an OpenAPI 3 or Swagger 2 document into an API description
+ * @param document The parsed document
+ * @param sourceUrl The URL the document was loaded from, which relative server URLs resolve against
+ * @returns The API
+ */
+export function convertApiDocument(document: Record<string, any>, sourceUrl: string): ApiDescription {
+  const swagger = typeof document.swagger === 'string';
+  const rawSchemas: Record<string, any> = (swagger ? document.definitions : document.components?.schemas) || {};
+  const context: DocumentContext = {
+    document,
+    schemaPrefix: swagger ? '#/definitions/' : '#/components/schemas/',
+    schemaNames: createSchemaNames(Object.keys(rawSchemas)),
+  };
+
+  const schemas: Record<string, ApiSchema> = {};
+  for (const [key, raw] of Object.entries(rawSchemas)) {
+    schemas[context.schemaNames.get(key)!] = convertSchema(raw, context, 0);
+  }
+
+  const operations: Omit<ApiOperation, 'name'>[] = [];
+  const candidates: string[] = [];
+  const skipped: string[] = [];
+
+  for (const [path, rawPathItem] of Object.entries<any>(document.paths || {})) {
+    const pathItem = resolvePointer(rawPathItem, context) || {};
+
+    for (const method of PATH_ITEM_METHODS) {
+      const rawOperation = pathItem[method];
+      if (!rawOperation || typeof rawOperation !== 'object') {
+        continue;
+      }
+
+      const operation = swagger
+        ? convertSwaggerOperation(rawOperation, pathItem, method, path, context)
+        : convertOpenApiOperation(rawOperation, pathItem, method, path, context);
+
+      if (!operation) {
+        skipped.push(`${method.toUpperCase()} ${path}`);
+        continue;
+      }
+
+      operations.push(operation);
+      candidates.push(typeof rawOperation.operationId === 'string' ? rawOperation.operationId : `${method} ${path}`);
+    }
+  }
+
+  if (skipped.length > 0) {
+    console.warn(chalk.yellow(`Skipping operations without a JSON request body: ${skipped.join(', ')}`));
+  }
+
+  const names = createOperationNames(candidates);
+
+  return {
+    format: swagger ? `Swagger ${document.swagger}` : `OpenAPI ${document.openapi}`,
+    title: typeof document.info?.title === 'string' ? document.info.title : 'API',
+    baseUrl: swagger ? getSwaggerBaseUrl(document, sourceUrl) : getOpenApiBaseUrl(document, sourceUrl),
+    schemas,
+    operations: operations.map((operation, index) => ({ ...operation, name: names[index] })),
+    auth: getDocumentAuth(document, swagger),
+  };
+}
+
+/**
+ * Fetches a URL as text, giving up after FETCH_TIMEOUT_MS
+ * @param url The URL
+ * @returns A promise that resolves to the body
+ */
+async function fetchText(url: string): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json, application/yaml, text/yaml, text/html;q=0.9, */*;q=0.8' },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return await response.text();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Parses a JSON or YAML document
+ * @param text The content of the document
+ * @returns The parsed object, or null if the text is neither, or not an object
+ */
+function parseDocument(text: string): Record<string, any> | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('<')) {
+    return null;
+  }
+
+  try {
+    const parsed = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Checks whether a parsed document is an OpenAPI 3 or Swagger 2 document
+ * @param document The parsed document
+ * @returns True if the document describes an API
+ */
+function isApiDocument(document: Record<string, any>): boolean {
+  return (typeof document.openapi === 'string' && document.openapi.startsWith('3.'))
+    || (typeof document.swagger === 'string' && document.swagger.startsWith('2.'));
+}
+
+/**
+ * Finds links to API documents on a page and in its analyzed links
+ * @param pageUrl The URL of the page
+ * @param html The content of the page
+ * @param toolInfo Information about the tool
+ * @returns The absolute URLs of the linked documents, without duplicates
+ */
+function findDocumentLinks(pageUrl: string, html: string, toolInfo: ToolAnalysisResult): string[] {
+  const candidates: string[] = [];
+
+  const analyzedLinks = Array.isArray(toolInfo.pageStructure?.links) ? toolInfo.pageStructure.links as unknown[] : [];
+  for (const link of analyzedLinks) {
+    const href = typeof link === 'string' ? link : (link as { href?: unknown })?.href;
+    if (typeof href === 'string') {
+      candidates.push(href);
+    }
+  }
+
+  // href and src attributes, and the url option Swagger UI and Redoc pages are configured with
+  for (const match of html.matchAll(/(?:href|src|url|spec-url)\s*[=:]\s*["']([^"']+)["']/gi)) {
+    candidates.push(match[1]);
+  }
+
+  const links = new Set<string>();
+  for (const candidate of candidates) {
+    try {
+      const absolute = new URL(candidate, pageUrl);
+      if (isApiDocumentPath(absolute.pathname)) {
+        links.add(absolute.toString());
+      }
+    } catch (error) {
+      // Not a URL
+    }
+  }
+
+  return Array.from(links);
+}
+
+/**
+ * Gets the base URL of an OpenAPI 3 document from its first server
+ * @param document The document
+ * @param sourceUrl The URL the document was loaded from
+ * @returns The base URL without a trailing slash
+ */
+function getOpenApiBaseUrl(document: Record<string, any>, sourceUrl: string): string {
+  const server = Array.isArray(document.servers) ? document.servers[0] : null;
+  let serverUrl = typeof server?.url === 'string' ? server.url : '/';
+
+  // Server variables like {region} take their default values
+  for (const [name, variable] of Object.entries<any>(server?.variables || {})) {
+    serverUrl = serverUrl.split(`{${name}}`).join(String(variable?.default ?? ''));
+  }
+
+  return new URL(serverUrl, sourceUrl).toString().replace(/\/+$/, '');
+}
+
+/**
+ * Gets the base URL of a Swagger 2 document from its host, base path and schemes
+ * @param document The document
+ * @param sourceUrl The URL the document was loaded from
+ * @returns The base URL without a trailing slash
+ */
+function getSwaggerBaseUrl(document: Record<string, any>, sourceUrl: string): string {
+  const basePath = typeof document.basePath === 'string' ? document.basePath : '/';
+
+  if (typeof document.host !== 'string') {
+    return new URL(basePath, sourceUrl).toString().replace(/\/+$/, '');
+  }
+
+  const schemes: string[] = Array.isArray(document.schemes) ? document.schemes : [];
+  const scheme = schemes.includes('https') ? 'https' : schemes[0] || new URL(sourceUrl).protocol.replace(':', '');
+  return `${scheme}://${document.host}${basePath}`.replace(/\/+$/, '');
+}
+
+/**
+ * Gets how the API of a document authenticates, from the first scheme it requires or else the first it declares
+ * @param document The document
+ * @param swagger Whether the document is a Swagger 2 document
+ * @returns The auth scheme, or undefined if the document declares none the client can send
+ */
+function getDocumentAuth(document: Record<string, any>, swagger: boolean): ApiAuth | undefined {
+  const schemes: Record<string, any> = (swagger ? document.securityDefinitions : document.components?.securitySchemes) || {};
+  const required = Array.isArray(document.security)
+    ? document.security.flatMap((requirement: unknown) => Object.keys(requirement || {}))
+    : [];
+
+  for (const name of [...required, ...Object.keys(schemes)]) {
+    const scheme = schemes[name];
+    if (!scheme || typeof scheme !== 'object') {
+      continue;
+    }
+
+    switch (scheme.type) {
+      case 'http':
+        if (/^basic$/i.test(String(scheme.scheme))) {
+          return { type: 'basic' };
+        }
+        if (/^bearer$/i.test(String(scheme.scheme))) {
+          return { type: 'bearer' };
+        }
+        break;
+      case 'basic':
+        return { type: 'basic' };
+      // API keys in cookies are left to the app
+      case 'apiKey':
+        if ((scheme.in === 'header' || scheme.in === 'query') && typeof scheme.name === 'string') {
+          return { type: 'apiKey', name: scheme.name, in: scheme.in };
+        }
+        break;
+      case 'oauth2': {
+        // Only the client credentials flow, Swagger's application flow, runs without a user
+        const flow = swagger ? (scheme.flow === 'application' ? scheme : null) : scheme.flows?.clientCredentials;
+        if (!flow) {
+          return { type: 'bearer' };
+        }
+        return {
+          type: 'oauth2',
+          tokenUrl: typeof flow.tokenUrl === 'string' ? flow.tokenUrl : undefined,
+          scopes: Object.keys(flow.scopes || {}),
+        };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts an operation of an OpenAPI 3 document
+ * @param raw The operation object
+ * @param pathItem The path item the operation belongs to
+ * @param method The lowercase HTTP method
+ * @param path The path template
+ * @param context The document context
+ * @returns The operation without its name, or null if it has no JSON request body to send
+ */
+function convertOpenApiOperation(
+  raw: Record<string, any>,
+  pathItem: Record<string, any>,
+  method: string,
+  path: string,
+  context: DocumentContext
+): Omit<ApiOperation, 'name'> | null {
+  const parameters = mergeParameters(pathItem.parameters, raw.parameters, context)
+    .filter(parameter => parameter.in === 'path' || parameter.in === 'query')
+    .map(parameter => ({
+      name: String(parameter.name),
+      in: parameter.in,
+      required: parameter.in === 'path' || parameter.required === true,
+      schema: convertSchema(parameter.schema || {}, context, 0),
+      description: typeof parameter.description === 'string' ? parameter.description : undefined,
+    } as ApiParameter));
+
+  let requestBody: ApiSchema | null = null;
+  const body = resolvePointer(raw.requestBody, context);
+  if (body?.content) {
+    const media = findJsonMedia(body.content);
+    if (!media) {
+      return null;
+    }
+    requestBody = convertSchema(media.schema || {}, context, 0);
+  }
+
+  const response = findSuccessResponse(raw.responses, context);
+  const responseMedia = response?.content ? findJsonMedia(response.content) : null;
+
+  return {
+    method: method.toUpperCase() as HttpMethod,
+    path,
+    summary: getSummary(raw),
+    parameters,
+    requestBody,
+    requestBodyRequired: body?.required === true,
+    response: responseMedia?.schema ? convertSchema(responseMedia.schema, context, 0) : null,
+  };
+}
+
+/**
+ * Converts an operation of a Swagger 2 document
+ * @param raw The operation object
+ * @param pathItem The path item the operation belongs to
+ * @param method The lowercase HTTP method
+ * @param path The path template
+ * @param context The document context
+ * @returns The operation without its name, or null if it sends form data
+ */
+function convertSwaggerOperation(
+  raw: Record<string, any>,
+  pathItem: Record<string, any>,
+  method: string,
+  path: string,
+  context: DocumentContext
+): Omit<ApiOperation, 'name'> | null {
+  const rawParameters = mergeParameters(pathItem.parameters, raw.parameters, context);
+  if (rawParameters.some(parameter => parameter.in === 'formData')) {
+    return null;
+  }
+
+  // Non-body parameters carry their schema keywords themselves
+  const parameters = rawParameters
+    .filter(parameter => parameter.in === 'path' || parameter.in === 'query')
+    .map(parameter => ({
+      name: String(parameter.name),
+      in: parameter.in,
+      required: parameter.in === 'path' || parameter.required === true,
+      schema: convertSchema({ type: parameter.type, items: parameter.items, enum: parameter.enum }, context, 0),
+      description: typeof parameter.description === 'string' ? parameter.description : undefined,
+    } as ApiParameter));
+
+  const body = rawParameters.find(parameter => parameter.in === 'body');
+  const response = findSuccessResponse(raw.responses, context);
+
+  return {
+    method: method.toUpperCase() as HttpMethod,
+    path,
+    summary: getSummary(raw),
+    parameters,
+    requestBody: body ? convertSchema(body.schema || {}, context, 0) : null,
+    requestBodyRequired: body?.required === true,
+    response: response?.schema ? convertSchema(response.schema, context, 0) : null,
+  };
+}
+
+/**
+ * Merges path-level and operation-level parameters, the operation's winning
+ * @param pathParameters The parameters of the path item
+ * @param operationParameters The parameters of the operation
+ * @param context The document context
+ * @returns The resolved parameter objects
+ */
+function mergeParameters(pathParameters: unknown, operationParameters: unknown, context: DocumentContext): Record<string, any>[] {
+  const merged = new Map<string, Record<string, any>>();
+
+  for (const list of [pathParameters, operationParameters]) {
+    for (const raw of Array.isArray(list) ? list : []) {
+      const parameter = resolvePointer(raw, context);
+      if (parameter && typeof parameter.name === 'string') {
+        merged.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Finds the response of the first success status, or the default response
+ * @param responses The responses object of an operation
+ * @param context The document context
+ * @returns The resolved response object, or null if there is none
+ */
+function findSuccessResponse(responses: unknown, context: DocumentContext): Record<string, any> | null {
+  if (!responses || typeof responses !== 'object') {
+    return null;
+  }
+
+  const codes = Object.keys(responses).sort();
+  const code = codes.find(candidate => /^2(\d\d|XX)$/i.test(candidate)) || codes.find(candidate => candidate === 'default');
+  return code ? resolvePointer((responses as Record<string, unknown>)[code], context) : null;
+}
+
+/**
+ * Finds the JSON media type of a content map
+ * @param content The content map of a request body or response
+ * @returns The media type object, or null if the content is not JSON
+ */
+function findJsonMedia(content: Record<string, any>): Record<string, any> | null {
+  const type = Object.keys(content).find(candidate => /^application\/(.+\+)?json\b/i.test(candidate))
+    || Object.keys(content).find(candidate => candidate === '*/*');
+  return type ? content[type] || {} : null;
+}
+
+/**
+ * Gets the summary of an operation
+ * @param raw The operation object
+ * @returns The summary, or the description if there is none
+ */
+function getSummary(raw: Record<string, any>): string | undefined {
+  const summary = typeof raw.summary === 'string' && raw.summary ? raw.summary : raw.description;
+  return typeof summary === 'string' && summary ? summary : undefined;
+}
+
+/**
+ * Resolves an object that may be a local $ref
+ * @param value The object or reference
+ * @param context The document context
+ * @returns The referenced object, or null if the reference cannot be resolved
+ */
+function resolvePointer(value: any, context: DocumentContext): Record<string, any> | null {
+  let current = value;
+
+  for (let depth = 0; current && typeof current.$ref === 'string'; depth++) {
+    if (depth > MAX_INLINE_DEPTH || !current.$ref.startsWith('#/')) {
+      return null;
+    }
+    current = current.$ref
+      .slice(2)
+      .split('/')
+      .map((segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((target: any, segment: string) => target?.[segment], context.document);
+  }
+
+  return current && typeof current === 'object' ? current : null;
+}
+
+/**
+ * Converts a schema object, referring to named schemas by their type name
+ * @param raw The schema object
+ * @param context The document context
+ * @param depth How many references have been inlined to get here
+ * @returns The schema
+ */
+function convertSchema(raw: any, context: DocumentContext, depth: number): ApiSchema {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  if (typeof raw.$ref === 'string') {
+    const name = raw.$ref.startsWith(context.schemaPrefix)
+      ? context.schemaNames.get(raw.$ref.slice(context.schemaPrefix.length).replace(/~1/g, '/').replace(/~0/g, '~'))
+      : undefined;
+    if (name) {
+      return { ref: name };
+    }
+
+    const resolved = depth < MAX_INLINE_DEPTH ? resolvePointer(raw, context) : null;
+    return resolved ? convertSchema(resolved, context, depth + 1) : {};
+  }
+
+  const schema: ApiSchema = {};
+  if (typeof raw.type === 'string' || Array.isArray(raw.type)) {
+    schema.type = raw.type;
+  }
+  if (typeof raw.description === 'string') {
+    schema.description = raw.description;
+  }
+  if (raw.nullable === true || raw['x-nullable'] === true) {
+    schema.nullable = true;
+  }
+  if (Array.isArray(raw.enum)) {
+    schema.enum = raw.enum;
+  } else if (raw.const !== undefined) {
+    schema.enum = [raw.const];
+  }
+  if (Array.isArray(raw.required)) {
+    schema.required = raw.required.filter((key: unknown): key is string => typeof key === 'string');
+  }
+  if (raw.properties && typeof raw.properties === 'object') {
+    schema.properties = {};
+    for (const [key, property] of Object.entries(raw.properties)) {
+      schema.properties[key] = convertSchema(property, context, depth);
+    }
+  }
+  if (raw.items) {
+    schema.items = convertSchema(raw.items, context, depth);
+  }
+  if (typeof raw.additionalProperties === 'boolean') {
+    schema.additionalProperties = raw.additionalProperties;
+  } else if (raw.additionalProperties && typeof raw.additionalProperties === 'object') {
+    schema.additionalProperties = convertSchema(raw.additionalProperties, context, depth);
+  }
+  for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+    if (Array.isArray(raw[keyword])) {
+      schema[keyword] = raw[keyword].map((member: unknown) => convertSchema(member, context, depth));
+    }
+  }
+
+  return schema;
+}
@@ -0,0 +1,142 @@
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
+import { findPackageManager, PackageManager, readPackageJson } from './nextjs-detector';
+import { findWorkspaceRoot, isWorkspacePackageDir } from './workspaces';
+
+/**
+ * Interface for where and how package manager commands run for a project
+ *
+ * In a workspace, commands run in the workspace root and are filtered to the project's
+ * package, so the root lockfile is the only one that gets written.
+ */
+export interface PackageManagerTarget {
+  name: PackageManager;
+  directory: string;
+  root: string;
+  workspace: string | null;
+}
+
+/**
+ * Gets the package manager commands run with for a project
+ * @param directory The directory of the project
+ * @param name The package manager to use instead of the detected one
+ * @returns A promise that resolves to the target of the commands
+ */
+export async function getPackageManagerTarget(directory: string, name?: PackageManager): Promise<PackageManagerTarget> {
+  const resolved = path.resolve(directory);
+  const packageManager = name || await findPackageManager(resolved) || 'npm';
+  const root = await findWorkspaceRoot(resolved);
+
+  if (!root || root === resolved || !await isWorkspacePackageDir(root, resolved)) {
+    return { name: packageManager, directory: resolved, root: resolved, workspace: null };
+  }
+
+  const packageJson = await readPackageJson(resolved);
+  const workspace = typeof packageJson.name === 'string' ? packageJson.name : null;
+
+  // Bun has no workspace filter for add and remove, but finds the root lockfile from the package
+  if (!workspace || packageManager === 'bun') {
+    return { name: packageManager, directory: resolved, root, workspace: null };
+  }
+
+  return { name: packageManager, directory: root, root, workspace };
+}
+
+/**
+ * Gets the command that adds dependencies
+ * @param target Where and how the command runs
+ * @param dependencies The packages to add
+ * @param dev Whether to add them as devDependencies
+ * @returns The command
+ */
+export function getAddCommand(target: PackageManagerTarget, dependencies: string[], dev = false): string {
+  const packages = dependencies.join(' ');
+
+  switch (target.name) {
+    case 'npm':
+      return `npm install${dev ? ' --save-dev' : ''} ${packages}${workspaceFlag(target, '--workspace')}`;
+    case 'yarn':
+      return `yarn${yarnWorkspace(target)} add${dev ? ' --dev' : ''} ${packages}`;
+    case 'pnpm':
+      return `pnpm add${dev ? ' --save-dev' : ''} ${packages}${workspaceFlag(target, '--filter')}`;
+    case 'bun':
+      return `bun add${dev ? ' --dev' : ''} ${packages}`;
+  }
+}
+
+/**
+ * Gets the command that removes dependencies
+ * @param target Where and how the command runs
+ * @param dependencies The packages to remove
+ * @returns The command
+ */
+export function getRemoveCommand(target: PackageManagerTarget, dependencies: string[]): string {
+  const packages = dependencies.join(' ');
+
+  switch (target.name) {
+    case 'npm':
+      return `npm uninstall ${packages}${workspaceFlag(target, '--workspace')}`;
+    case 'yarn':
+      return `yarn${yarnWorkspace(target)} remove ${packages}`;
+    case 'pnpm':
+      return `pnpm remove ${packages}${workspaceFlag(target, '--filter')}`;
+    case 'bun':
+      return `bun remove ${packages}`;
+  }
+}
+
+/**
+ * Gets the command that runs a binary of an installed package in the project
+ * @param target Where and how the command runs
+ * @param command The binary and its arguments
+ * @returns The command
+ */
+export function getExecCommand(target: PackageManagerTarget, command: string): string {
+  switch (target.name) {
+    case 'npm':
+      return target.workspace ? `npm exec${workspaceFlag(target, '--workspace')} -- ${command}` : `npx ${command}`;
+    case 'yarn':
+      return `yarn${yarnWorkspace(target)} ${command}`;
+    case 'pnpm':
+      return `pnpm${workspaceFlag(target, '--filter')} exec ${command}`;
+    case 'bun':
+      return `bunx ${command}`;
+  }
+}
+
+/**
+ * Gets the command that installs every dependency of the project
+ * @param target Where and how the command runs
+ * @returns The command
+ */
+export function getInstallCommand(target: PackageManagerTarget): string {
+  return `${target.name} install`;
+}
+
+/**
+ * Runs a package manager command where the target says, showing its output
+ * @param target Where and how the command runs
+ * @param command The command
+ */
+export function runPackageManagerCommand(target: PackageManagerTarget, command: string): void {
+  execSync(command, { cwd: target.directory, stdio: 'inherit' });
+}
+
+/**
+ * Gets the flag that filters a command to the project's workspace package
+ * @param target Where and how the command runs
+ * @param flag The filter flag of the package manager
+ * @returns The flag with a leading space, or an empty string outside a workspace
+ */
+function workspaceFlag(target: PackageManagerTarget, flag: string): string {
+  return target.workspace ? ` ${flag} ${target.workspace}` : '';
+}
+
+/**
+ * Gets the yarn workspace prefix that runs a command in the project's workspace package
+ * @param target Where and how the command runs
+ * @returns The prefix with a leading space, or an empty string outside a workspace
+ */
+function yarnWorkspace(target: PackageManagerTarget): string {
+  return target.workspace ? ` workspace ${target.workspace}` : '';
+}
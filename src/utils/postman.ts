@@ -0,0 +1,379 @@
+import chalk from 'chalk';
+import { ApiAuth, ApiDescription, ApiHeader } from './api-description';
+import {
+  createApiFromRequests,
+  detectHeaderAuth,
+  findCommonHeaders,
+  findPartialHeaders,
+  isApiKeyQueryParameter,
+  isHttpMethod,
+  parseJsonBody,
+  RecordedField,
+  RecordedRequest,
+  selectApiRequests,
+} from './api-examples';
+
+/**
+ * Base URL of requests whose base URL variable has no value
+ */
+const DEFAULT_BASE_URL = 'http://localhost';
+
+/**
+ * How many levels of variables referencing other variables are resolved
+ */
+const MAX_VARIABLE_DEPTH = 5;
+
+/**
+ * Schema URLs of the collection formats that can be imported
+ */
+const COLLECTION_SCHEMA_PATTERN = /collection\/v(2\.[01])/;
+
+/**
+ * Interface for what converting the items of a collection collects
+ */
+interface CollectionContext {
+  variables: Record<string, string>;
+  requests: RecordedRequest[];
+  auth: ApiAuth | null;
+  skipped: string[];
+  unsupportedAuth: Set<string>;
+  missingVariables: Set<string>;
+}
+
+/**
+ * Checks whether a parsed file is a Postman collection
+ * @param document The parsed file
+ * @returns True for v2.0 and v2.1 collections
+ */
+export function isPostmanCollection(document: Record<string, any>): boolean {
+  return typeof document.info?.schema === 'string'
+    && COLLECTION_SCHEMA_PATTERN.test(document.info.schema)
+    && Array.isArray(document.item);
+}
+
+/**
+ * Converts a Postman collection into an API description
+ *
+ * Every request of the collection and its folders is an operation, named after the request.
+ * A {{variable}} the URLs start with is the base URL; other variables in a path are path
+ * parameters, and a header that is a variable is read from an environment variable. The
+ * saved responses of a request are the examples its response type is inferred from.
+ * @param document The parsed collection
+ * @returns The API
+ */
+export function convertPostmanCollection(document: Record<string, any>): ApiDescription {
+  const variables: Record<string, string> = {};
+  for (const variable of Array.isArray(document.variable) ? document.variable : []) {
+    if (typeof variable?.key === 'string' && !variable.disabled) {
+      variables[variable.key] = variable.value == null ? '' : String(variable.value);
+    }
+  }
+
+  const context: CollectionContext = {
+    variables,
+    requests: [],
+    auth: null,
+    skipped: [],
+    unsupportedAuth: new Set(),
+    missingVariables: new Set(),
+  };
+  collectItems(document.item, document.auth, context);
+
+  if (context.skipped.length > 0) {
+    console.warn(chalk.yellow(`Skipping requests without a JSON request body: ${context.skipped.join(', ')}`));
+  }
+  if (context.unsupportedAuth.size > 0) {
+    console.warn(chalk.yellow(`Postman ${Array.from(context.unsupportedAuth).join(', ')} auth is not generated; requests send the API key as a bearer token`));
+  }
+  for (const variable of context.missingVariables) {
+    console.warn(chalk.yellow(`The {{${variable}}} variable has no value in the collection; set the base URL in the environment`));
+  }
+
+  const requests = selectApiRequests(context.requests);
+  const headers: ApiHeader[] = findCommonHeaders(requests)
+    .filter(header => !header.value.includes('{{$'))
+    .map(header => convertHeader(header, variables));
+
+  // A variable header only some requests send is not a default header, but it should not go unnoticed
+  for (const header of findPartialHeaders(requests).filter(header => /^\{\{\s*[^{}$]+?\s*\}\}$/.test(header.value))) {
+    console.warn(chalk.yellow(`The ${header.name} header is ${header.value} in only some requests, so the generated methods do not send it; send those requests with request() and the header`));
+  }
+
+  const version = COLLECTION_SCHEMA_PATTERN.exec(document.info.schema)![1];
+
+  return createApiFromRequests({
+    format: `Postman collection v${version}`,
+    title: typeof document.info.name === 'string' && document.info.name.trim() ? document.info.name.trim() : 'API',
+    requests,
+    auth: context.auth || undefined,
+    headers,
+  });
+}
+
+/**
+ * Collects the requests of the items of a collection or folder
+ * @param items The items
+ * @param inheritedAuth The auth settings of the enclosing folder or collection
+ * @param context The collection context
+ */
+function collectItems(items: unknown, inheritedAuth: Record<string, any> | undefined, context: CollectionContext): void {
+  for (const item of Array.isArray(items) ? items : []) {
+    if (Array.isArray(item?.item)) {
+      collectItems(item.item, item.auth || inheritedAuth, context);
+    } else if (item?.request) {
+      collectRequest(item, inheritedAuth, context);
+    }
+  }
+}
+
+/**
+ * Records a request item of a collection
+ * @param item The item
+ * @param inheritedAuth The auth settings of the enclosing folder or collection
+ * @param context The collection context
+ */
+function collectRequest(item: Record<string, any>, inheritedAuth: Record<string, any> | undefined, context: CollectionContext): void {
+  const request: Record<string, any> = typeof item.request === 'string' ? { url: item.request } : item.request;
+  const method = String(request.method || 'GET').toUpperCase();
+  const name = typeof item.name === 'string' ? item.name : undefined;
+  const url = parseUrl(request.url, context);
+
+  if (!url || !isHttpMethod(method)) {
+    return;
+  }
+
+  const auth = request.auth || inheritedAuth;
+  if (auth && !context.auth) {
+    context.auth = convertAuth(auth, context);
+  }
+
+  const headers: RecordedField[] = (Array.isArray(request.header) ? request.header : [])
+    .filter((header: any) => typeof header?.key === 'string' && !header.disabled)
+    .map((header: any) => ({ name: header.key, value: header.value == null ? '' : String(header.value) }));
+
+  // Credentials set as headers or query parameters rather than with the auth settings
+  for (const header of headers) {
+    context.auth = context.auth || detectHeaderAuth(header.name, header.value);
+  }
+  const query = url.query.filter(field => {
+    if (!isApiKeyQueryParameter(field.name)) {
+      return true;
+    }
+    context.auth = context.auth || { type: 'apiKey', name: field.name, in: 'query' };
+    return false;
+  });
+
+  let body: unknown;
+  const rawBody = request.body;
+  if (rawBody?.mode === 'raw' && typeof rawBody.raw === 'string' && rawBody.raw.trim()) {
+    body = parseJsonBody(replaceJsonPlaceholders(rawBody.raw, context.variables));
+    if (body === undefined) {
+      context.skipped.push(name || `${method} ${url.path}`);
+      return;
+    }
+  } else if (rawBody?.mode && rawBody.mode !== 'raw' && rawBody[rawBody.mode] && !rawBody.disabled) {
+    context.skipped.push(name || `${method} ${url.path}`);
+    return;
+  }
+
+  const responses = (Array.isArray(item.response) ? item.response : []).map((response: any) => ({
+    status: Number(response?.code) || 0,
+    body: parseJsonBody(typeof response?.body === 'string' ? response.body : undefined),
+  }));
+
+  context.requests.push({
+    name,
+    method,
+    baseUrl: url.baseUrl,
+    path: url.path,
+    pathParams: url.pathParams,
+    query,
+    headers,
+    body,
+    responses,
+  });
+}
+
+/**
+ * Splits the URL of a request into its base URL, path template and query
+ * @param url The URL, as a string or a Postman URL object
+ * @param context The collection context
+ * @returns The parts of the URL, or null if the request has no URL
+ */
+function parseUrl(
+  url: unknown,
+  context: CollectionContext
+): { baseUrl: string; path: string; pathParams: Record<string, string>; query: RecordedField[] } | null {
+  const object = url && typeof url === 'object' ? url as Record<string, any> : null;
+  const raw = typeof url === 'string' ? url : typeof object?.raw === 'string' ? object.raw : buildRawUrl(object);
+  if (!raw) {
+    return null;
+  }
+
+  const withoutHash = raw.split('#')[0];
+  const queryStart = withoutHash.indexOf('?');
+  const withoutQuery = queryStart === -1 ? withoutHash : withoutHash.slice(0, queryStart);
+  const queryString = queryStart === -1 ? '' : withoutHash.slice(queryStart + 1);
+  let baseUrl: string;
+  let rest: string;
+
+  const variableBase = /^\{\{\s*([^{}]+?)\s*\}\}(.*)$/s.exec(withoutQuery);
+  if (variableBase) {
+    const value = context.variables[variableBase[1]];
+    if (!value) {
+      context.missingVariables.add(variableBase[1]);
+    }
+    baseUrl = (value ? resolveVariables(value, context.variables) : DEFAULT_BASE_URL).replace(/\/+$/, '');
+    rest = variableBase[2];
+  } else {
+    const match = /^([a-z][\w+.-]*:\/\/)?([^/]*)(.*)$/is.exec(withoutQuery)!;
+    baseUrl = `${match[1] || 'https://'}${resolveVariables(match[2], context.variables)}`;
+    rest = match[3];
+  }
+
+  // :name segments are path variables, and so are variables that make up a whole segment
+  const pathValues: Record<string, string> = {};
+  for (const variable of Array.isArray(object?.variable) ? object!.variable : []) {
+    if (typeof variable?.key === 'string') {
+      pathValues[variable.key] = variable.value == null ? '' : String(variable.value);
+    }
+  }
+
+  const pathParams: Record<string, string> = {};
+  const path = rest.split('/').map(segment => {
+    const pathVariable = /^:([\w.-]+)$/.exec(segment);
+    if (pathVariable) {
+      pathParams[pathVariable[1]] = resolveVariables(pathValues[pathVariable[1]] || '', context.variables);
+      return `{${pathVariable[1]}}`;
+    }
+
+    const wholeVariable = /^\{\{\s*([^{}$]+?)\s*\}\}$/.exec(segment);
+    if (wholeVariable) {
+      pathParams[wholeVariable[1]] = resolveVariables(context.variables[wholeVariable[1]] || '', context.variables);
+      return `{${wholeVariable[1]}}`;
+    }
+
+    return resolveVariables(segment, context.variables);
+  }).join('/');
+
+  const queryFields: RecordedField[] = Array.isArray(object?.query)
+    ? object!.query
+      .filter((field: any) => typeof field?.key === 'string' && !field.disabled)
+      .map((field: any) => ({ name: field.key, value: field.value == null ? '' : String(field.value) }))
+    : Array.from(new URLSearchParams(queryString), ([name, value]) => ({ name, value }));
+
+  return {
+    baseUrl,
+    path: path.startsWith('/') ? path : `/${path}`,
+    pathParams,
+    query: queryFields.map(field => ({ name: field.name, value: resolveVariables(field.value, context.variables) })),
+  };
+}
+
+/**
+ * Builds the raw URL of a Postman URL object without one
+ * @param url The URL object
+ * @returns The raw URL, or an empty string
+ */
+function buildRawUrl(url: Record<string, any> | null): string {
+  if (!url) {
+    return '';
+  }
+
+  const host = Array.isArray(url.host) ? url.host.join('.') : String(url.host || '');
+  const path = Array.isArray(url.path) ? url.path.join('/') : String(url.path || '');
+  const protocol = url.protocol ? `${url.protocol}://` : '';
+  return host ? `${protocol}${host}${url.port ? `:${url.port}` : ''}/${path}` : '';
+}
+
+/**
+ * Replaces the {{variables}} in text with the values of the collection variables
+ * @param text The text
+ * @param variables The collection variables
+ * @param depth How many levels of variables have been resolved
+ * @returns The text, with variables that have no value left as they are
+ */
+function resolveVariables(text: string, variables: Record<string, string>, depth = 0): string {
+  const resolved = text.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, name: string) =>
+    variables[name] !== undefined ? variables[name] : match
+  );
+
+  return resolved !== text && depth < MAX_VARIABLE_DEPTH ? resolveVariables(resolved, variables, depth + 1) : resolved;
+}
+
+/**
+ * Replaces the {{variables}} outside strings in a JSON body, so it can be parsed
+ * @param raw The raw body
+ * @param variables The collection variables
+ * @returns The body, with each variable replaced by its value as a JSON literal, or null
+ */
+function replaceJsonPlaceholders(raw: string, variables: Record<string, string>): string {
+  return raw.replace(/"(?:[^"\\]|\\.)*"|\{\{\s*([^{}]+?)\s*\}\}/g, (match, name?: string) => {
+    if (!name) {
+      return match;
+    }
+
+    const value = variables[name];
+    if (value === undefined) {
+      return 'null';
+    }
+    return parseJsonBody(value) !== undefined && !/^\s*[[{]/.test(value) ? value.trim() : JSON.stringify(value);
+  });
+}
+
+/**
+ * Converts the auth settings of a collection, folder or request
+ * @param auth The auth settings
+ * @param context The collection context
+ * @returns The auth scheme, or null for no auth or a scheme that is not generated
+ */
+function convertAuth(auth: Record<string, any>, context: CollectionContext): ApiAuth | null {
+  switch (auth.type) {
+    // OAuth 2.0 access tokens are sent as bearer tokens
+    case 'bearer':
+    case 'oauth2':
+      return { type: 'bearer' };
+    case 'basic':
+      return { type: 'basic' };
+    case 'apikey':
+      return {
+        type: 'apiKey',
+        name: getAuthValue(auth, 'key') || 'api_key',
+        in: getAuthValue(auth, 'in') === 'query' ? 'query' : 'header',
+      };
+    case 'noauth':
+    case undefined:
+      return null;
+    default:
+      context.unsupportedAuth.add(String(auth.type));
+      return null;
+  }
+}
+
+/**
+ * Gets a setting of an auth scheme, which v2.1 lists as key-value pairs and v2.0 as an object
+ * @param auth The auth settings
+ * @param key The setting
+ * @returns The value, or undefined
+ */
+function getAuthValue(auth: Record<string, any>, key: string): string | undefined {
+  const settings = auth[auth.type];
+  const value = Array.isArray(settings)
+    ? settings.find((setting: any) => setting?.key === key)?.value
+    : settings?.[key];
+
+  return value == null ? undefined : String(value);
+}
+
+/**
+ * Converts a header every request sends into a header of the API
+ * @param header The header
+ * @param variables The collection variables
+ * @returns The header, read from an environment variable if its value is a variable
+ */
+function convertHeader(header: RecordedField, variables: Record<string, string>): ApiHeader {
+  const variable = /^\{\{\s*([^{}]+?)\s*\}\}$/.exec(header.value);
+  return variable
+    ? { name: header.name, value: resolveVariables(variables[variable[1]] || '', variables), variable: variable[1] }
+    : { name: header.name, value: resolveVariables(header.value, variables) };
+}
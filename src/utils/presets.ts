@@ -0,0 +1,499 @@
+import * as fs from 'fs-extra';
+import * as path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { NextRouter } from './project-layout';
+
+/**
+ * Name of the config file teams define their own presets in
+ */
+export const CONFIG_FILE = 'nextjs-integrator.config.json';
+
+/**
+ * Preset used when none is chosen
+ */
+export const DEFAULT_PRESET = 'fullstack';
+
+/**
+ * Interface for the choices of a new app that preset files depend on
+ */
+export interface PresetContext {
+  typescript: boolean;
+  router: NextRouter;
+  srcDir: boolean;
+  importAlias: string;
+}
+
+/**
+ * Interface for a file a preset writes, relative to the app directory
+ */
+export interface PresetFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Interface for a stack a new app is bootstrapped with
+ *
+ * Commands run through the package manager's exec command after the dependencies are
+ * installed and the files are written.
+ */
+export interface BootstrapPreset {
+  name: string;
+  description: string;
+  dependencies: string[];
+  devDependencies: string[];
+  commands: string[];
+  files: (context: PresetContext) => PresetFile[];
+}
+
+/**
+ * Presets that ship with the CLI
+ */
+export const BUILT_IN_PRESETS: BootstrapPreset[] = [
+  {
+    name: 'minimal',
+    description: 'create-next-app only',
+    dependencies: [],
+    devDependencies: [],
+    commands: [],
+    files: () => [],
+  },
+  {
+    name: 'api',
+    description: 'An example API route',
+    dependencies: [],
+    devDependencies: [],
+    commands: [],
+    files: context => [generateExampleRoute(context)],
+  },
+  {
+    name: 'fullstack',
+    description: 'An example API route, Prisma with a starter schema on SQLite, and NextAuth.js with GitHub sign-in',
+    dependencies: ['@prisma/client', 'next-auth'],
+    devDependencies: ['prisma'],
+    commands: ['prisma generate'],
+    files: context => [
+      generateExampleRoute(context),
+      ...generatePrismaFiles(context, false),
+      ...generateAuthFiles(context, false),
+      ...generateEnvFiles(false),
+    ],
+  },
+  {
+    name: 'saas',
+    description: 'fullstack with NextAuth.js users stored through Prisma, and a Stripe client',
+    dependencies: ['@prisma/client', 'next-auth', '@next-auth/prisma-adapter', 'stripe'],
+    devDependencies: ['prisma'],
+    commands: ['prisma generate'],
+    files: context => [
+      generateExampleRoute(context),
+      ...generatePrismaFiles(context, true),
+      ...generateAuthFiles(context, true),
+      generateStripeClient(context),
+      ...generateEnvFiles(true),
+    ],
+  },
+];
+
+/**
+ * Reads the built-in presets and the presets of the nearest config file
+ * @param directory The directory to look for the config file from, walking up
+ * @returns A promise that resolves to the presets, config presets replacing built-in presets of the same name
+ */
+export async function loadPresets(directory: string): Promise<BootstrapPreset[]> {
+  const presets = new Map(BUILT_IN_PRESETS.map(preset => [preset.name, preset] as [string, BootstrapPreset]));
+  const configFile = await findConfigFile(directory);
+
+  if (configFile) {
+    for (const preset of await readConfigPresets(configFile)) {
+      presets.set(preset.name, preset);
+    }
+  }
+
+  return Array.from(presets.values());
+}
+
+/**
+ * Finds a preset by name
+ * @param presets The available presets
+ * @param name The name of the preset
+ * @returns The preset
+ */
+export function getPreset(presets: BootstrapPreset[], name: string): BootstrapPreset {
+  const preset = presets.find(candidate => candidate.name === name);
+
+  if (!preset) {
+    throw new Error(`Unknown preset "${name}". Available presets: ${presets.map(candidate => candidate.name).join(', ')}.`);
+  }
+
+  return preset;
+}
+
+/**
+ * Finds the nearest config file
+ * @param directory The directory to start from
+ * @returns A promise that resolves to the absolute path of the config file, or null if there is none
+ */
+async function findConfigFile(directory: string): Promise<string | null> {
+  let current = path.resolve(directory);
+
+  while (true) {
+    const configFile = path.join(current, CONFIG_FILE);
+    if (await fs.pathExists(configFile)) {
+      return configFile;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Reads the presets of a config file
+ *
+ * A preset may extend a built-in preset, adding dependencies, commands and files to it;
+ * files with the same path replace the built-in ones.
+ * @param configFile The absolute path of the config file
+ * @returns A promise that resolves to the presets
+ */
+async function readConfigPresets(configFile: string): Promise<BootstrapPreset[]> {
+  let config: any;
+  try {
+    config = await fs.readJson(configFile);
+  } catch (error) {
+    throw new Error(`Could not read ${configFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const entries = Object.entries<any>(config.presets || {});
+
+  return entries.map(([name, definition]) => {
+    const where = `preset "${name}" in ${configFile}`;
+    const base = definition.extends === undefined ? null : BUILT_IN_PRESETS.find(preset => preset.name === definition.extends);
+
+    if (definition.extends !== undefined && !base) {
+      throw new Error(`The ${where} extends "${definition.extends}", which is not a built-in preset (${BUILT_IN_PRESETS.map(preset => preset.name).join(', ')}).`);
+    }
+
+    const files: Record<string, unknown> = definition.files || {};
+    for (const [filePath, content] of Object.entries(files)) {
+      if (typeof content !== 'string') {
+        throw new Error(`The content of ${filePath} in the ${where} must be a string.`);
+      }
+    }
+
+    return {
+      name,
+      description: typeof definition.description === 'string' ? definition.description : `Defined in ${CONFIG_FILE}`,
+      dependencies: [...(base?.dependencies || []), ...readStringList(definition.dependencies, 'dependencies', where)],
+      devDependencies: [...(base?.devDependencies || []), ...readStringList(definition.devDependencies, 'devDependencies', where)],
+      commands: [...(base?.commands || []), ...readStringList(definition.commands, 'commands', where)],
+      files: context => {
+        const configFiles = Object.entries(files).map(([filePath, content]) => ({ path: filePath, content: content as string }));
+        const baseFiles = (base ? base.files(context) : []).filter(file => !configFiles.some(configured => configured.path === file.path));
+        return [...baseFiles, ...configFiles];
+      },
+    };
+  });
+}
+
+/**
+ * Reads a list of strings from a preset definition
+ * @param value The value of the field
+ * @param field The name of the field
+ * @param where Where the preset is defined, for errors
+ * @returns The strings
+ */
+function readStringList(value: unknown, field: string, where: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`${field} of the ${where} must be a list of strings.`);
+  }
+
+  return value;
+}
+
+/**
+ * Gets the path of a source file, under src/ if the app uses it
+ * @param context The choices of the new app
+ * @param segments The path of the file from the source root, without extension
+ * @param jsx Whether the file contains JSX
+ * @returns The path relative to the app directory
+ */
+export function sourcePath(context: PresetContext, segments: string[], jsx = false): string {
+  const extension = context.typescript ? (jsx ? '.tsx' : '.ts') : (jsx ? '.jsx' : '.js');
+  const relative = [...(context.srcDir ? ['src'] : []), ...segments].join('/');
+  return `${relative}${extension}`;
+}
+
+/**
+ * Gets the import specifier of a source file through the app's import alias
+ * @param context The choices of the new app
+ * @param modulePath The path of the module from the source root
+ * @returns The import specifier
+ */
+function aliasImport(context: PresetContext, modulePath: string): string {
+  return context.importAlias.replace('*', modulePath);
+}
+
+/**
+ * Generates the example API route
+ * @param context The choices of the new app
+ * @returns The route file
+ */
+export function generateExampleRoute(context: PresetContext): PresetFile {
+  if (context.router === 'pages') {
+    return {
+      path: sourcePath(context, ['pages', 'api', 'example']),
+      content: `${context.typescript ? "import type { NextApiRequest, NextApiResponse } from 'next';\n\n" : ''}export default function handler(${context.typescript ? 'req: NextApiRequest, res: NextApiResponse' : 'req, res'}) {
+  if (req.method === 'POST') {
+    res.status(200).json({ message: 'Data received!', data: req.body });
+    return;
+  }
+
+  res.status(200).json({ message: 'Hello from the API!' });
+}
+`,
+    };
+  }
+
+  return {
+    path: sourcePath(context, ['app', 'api', 'example', 'route']),
+    content: `import { NextResponse } from 'next/server';
+
+export async function GET() {
+  return NextResponse.json({ message: 'Hello from the API!' });
+}
+
+export async function POST(${context.typescript ? 'request: Request' : 'request'}) {
+  const body = await request.json();
+  return NextResponse.json({
+    message: 'Data received!',
+    data: body
+  });
+}
+`,
+  };
+}
+
+/**
+ * Generates a starter Prisma schema on SQLite and a shared Prisma client
+ * @param context The choices of the new app
+ * @param authModels Whether the schema stores NextAuth.js users, accounts and sessions
+ * @returns The schema and client files
+ */
+function generatePrismaFiles(context: PresetContext, authModels: boolean): PresetFile[] {
+  const models = authModels
+    ? `model User {
+  id               String    @id @default(cuid())
+  name             String?
+  email            String?   @unique
+  emailVerified    DateTime?
+  image            String?
+  stripeCustomerId String?   @unique
+  accounts         Account[]
+  sessions         Session[]
+  createdAt        DateTime  @default(now())
+}
+
+model Account {
+  id                String  @id @default(cuid())
+  userId            String
+  type              String
+  provider          String
+  providerAccountId String
+  refresh_token     String?
+  access_token      String?
+  expires_at        Int?
+  token_type        String?
+  scope             String?
+  id_token          String?
+  session_state     String?
+  user              User    @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+  @@unique([provider, providerAccountId])
+}
+
+model Session {
+  id           String   @id @default(cuid())
+  sessionToken String   @unique
+  userId       String
+  expires      DateTime
+  user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)
+}
+
+model VerificationToken {
+  identifier String
+  token      String   @unique
+  expires    DateTime
+
+  @@unique([identifier, token])
+}`
+    : `model User {
+  id        String   @id @default(cuid())
+  email     String   @unique
+  name      String?
+  posts     Post[]
+  createdAt DateTime @default(now())
+}
+
+model Post {
+  id        String   @id @default(cuid())
+  title     String
+  content   String?
+  published Boolean  @default(false)
+  author    User     @relation(fields: [authorId], references: [id])
+  authorId  String
+  createdAt DateTime @default(now())
+}`;
+
+  return [
+    {
+      path: 'prisma/schema.prisma',
+      content: `generator client {
+  provider = "prisma-client-js"
+}
+
+// SQLite works without a database server; switch the provider and DATABASE_URL for production
+datasource db {
+  provider = "sqlite"
+  url      = env("DATABASE_URL")
+}
+
+${models}
+`,
+    },
+    {
+      path: sourcePath(context, ['lib', 'prisma']),
+      content: `import { PrismaClient } from '@prisma/client';
+
+// Reuse one client across hot reloads in development
+const globalForPrisma = globalThis${context.typescript ? ' as unknown as { prisma?: PrismaClient }' : ''};
+
+export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForPrisma.prisma = prisma;
+}
+`,
+    },
+  ];
+}
+
+/**
+ * Generates a NextAuth.js config with GitHub sign-in and its API route
+ * @param context The choices of the new app
+ * @param prismaAdapter Whether users are stored through the Prisma adapter
+ * @returns The config and route files
+ */
+function generateAuthFiles(context: PresetContext, prismaAdapter: boolean): PresetFile[] {
+  const authImport = aliasImport(context, 'auth');
+  const imports = [
+    `import { getServerSession${context.typescript ? ', type NextAuthOptions' : ''} } from 'next-auth';`,
+    "import GitHubProvider from 'next-auth/providers/github';",
+    ...(prismaAdapter ? [
+      "import { PrismaAdapter } from '@next-auth/prisma-adapter';",
+      `import { prisma } from '${aliasImport(context, 'lib/prisma')}';`,
+    ] : []),
+    ...(context.router === 'pages' && context.typescript ? ["import type { GetServerSidePropsContext, NextApiRequest, NextApiResponse } from 'next';"] : []),
+  ];
+
+  const authHelper = context.router === 'pages'
+    ? `/**
+ * Gets the session of the signed-in user in getServerSideProps or an API route
+ */
+export function auth(${context.typescript ? "req: GetServerSidePropsContext['req'] | NextApiRequest, res: GetServerSidePropsContext['res'] | NextApiResponse" : 'req, res'}) {
+  return getServerSession(req, res, authOptions);
+}`
+    : `/**
+ * Gets the session of the signed-in user in server components and route handlers
+ */
+export function auth() {
+  return getServerSession(authOptions);
+}`;
+
+  const config = {
+    path: sourcePath(context, ['auth']),
+    content: `${imports.join('\n')}
+
+export const authOptions${context.typescript ? ': NextAuthOptions' : ''} = {
+${prismaAdapter ? '  adapter: PrismaAdapter(prisma),\n' : ''}  providers: [
+    GitHubProvider({
+      clientId: process.env.GITHUB_ID ?? '',
+      clientSecret: process.env.GITHUB_SECRET ?? '',
+    }),
+  ],
+};
+
+${authHelper}
+`,
+  };
+
+  const route = context.router === 'pages'
+    ? {
+      path: sourcePath(context, ['pages', 'api', 'auth', '[...nextauth]']),
+      content: `import NextAuth from 'next-auth';
+import { authOptions } from '${authImport}';
+
+export default NextAuth(authOptions);
+`,
+    }
+    : {
+      path: sourcePath(context, ['app', 'api', 'auth', '[...nextauth]', 'route']),
+      content: `import NextAuth from 'next-auth';
+import { authOptions } from '${authImport}';
+
+const handler = NextAuth(authOptions);
+
+export { handler as GET, handler as POST };
+`,
+    };
+
+  return [config, route];
+}
+
+/**
+ * Generates a shared Stripe client
+ * @param context The choices of the new app
+ * @returns The client file
+ */
+function generateStripeClient(context: PresetContext): PresetFile {
+  return {
+    path: sourcePath(context, ['lib', 'stripe']),
+    content: `import Stripe from 'stripe';
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY ?? '');
+`,
+  };
+}
+
+/**
+ * Generates the environment variables of the fullstack and saas presets
+ *
+ * The Prisma CLI only reads .env, so DATABASE_URL goes there; secrets go to .env.local, which
+ * create-next-app ignores in git. The NextAuth.js secret is generated so sign-in works
+ * without further setup.
+ * @param stripe Whether to add the Stripe keys
+ * @returns The .env and .env.local files
+ */
+function generateEnvFiles(stripe: boolean): PresetFile[] {
+  return [
+    {
+      path: '.env',
+      content: 'DATABASE_URL="file:./dev.db"\n',
+    },
+    {
+      path: '.env.local',
+      content: `NEXTAUTH_URL=http://localhost:3000
+NEXTAUTH_SECRET=${randomBytes(32).toString('base64')}
+GITHUB_ID=
+GITHUB_SECRET=
+${stripe ? 'STRIPE_SECRET_KEY=\nSTRIPE_WEBHOOK_SECRET=\n' : ''}`,
+    },
+  ];
+}
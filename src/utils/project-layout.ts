@@ -0,0 +1,268 @@
+import * as fs from 'fs-extra';
+import * as path from 'node:path';
+
+/**
+ * Config files that may declare import aliases, in the order Next.js reads them
+ */
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+
+/**
+ * Router a Next.js application routes with
+ */
+export type NextRouter = 'app' | 'pages';
+
+/**
+ * Routers accepted by --router
+ */
+export const NEXT_ROUTERS: NextRouter[] = ['app', 'pages'];
+
+/**
+ * Interface for a router directory found in a Next.js application
+ */
+export interface NextRouterInfo {
+  router: NextRouter;
+  directory: string;
+}
+
+/**
+ * Interface for an import alias from compilerOptions.paths
+ */
+export interface ImportAlias {
+  pattern: string;
+  targets: string[];
+}
+
+/**
+ * Interface for where a project keeps its source and how it imports it
+ */
+export interface ProjectLayout {
+  directory: string;
+  sourceDir: string;
+  routers: NextRouterInfo[];
+  configFile: string | null;
+  aliases: ImportAlias[];
+  typescript: boolean;
+}
+
+/**
+ * Interface for the compiler options that affect module resolution
+ */
+interface ResolutionOptions {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  pathsBase?: string;
+}
+
+/**
+ * Detects the source directory, routers, import aliases and language of a Next.js application
+ * @param directory The directory of the Next.js app
+ * @returns A promise that resolves to the project layout
+ */
+export async function detectProjectLayout(directory: string): Promise<ProjectLayout> {
+  const routers = await detectRouters(directory);
+
+  // app/ and pages/ sit next to lib/ and components/, at the root or under src/
+  const sourceDir = routers.length > 0 ? path.dirname(routers[0].directory) : path.join(directory, 'src');
+
+  let configFile: string | null = null;
+  for (const file of CONFIG_FILES) {
+    if (await fs.pathExists(path.join(directory, file))) {
+      configFile = path.join(directory, file);
+      break;
+    }
+  }
+
+  const aliases: ImportAlias[] = [];
+  if (configFile) {
+    const options = await readResolutionOptions(configFile, 0);
+
+    for (const [pattern, targets] of Object.entries(options.paths || {})) {
+      const base = options.pathsBase || path.dirname(configFile);
+      aliases.push({ pattern, targets: targets.map(target => path.resolve(base, target)) });
+    }
+
+    // A baseUrl alone makes every file under it importable by its path from there
+    if (options.baseUrl) {
+      aliases.push({ pattern: '*', targets: [path.join(options.baseUrl, '*')] });
+    }
+  }
+
+  // Next.js treats a project as TypeScript once it has a tsconfig.json
+  const typescript = configFile !== null && path.basename(configFile) === 'tsconfig.json';
+
+  return { directory, sourceDir, routers, configFile, aliases, typescript };
+}
+
+/**
+ * Detects which routers a Next.js application uses
+ *
+ * Next.js looks for app/ and pages/ at the project root first and only falls back to src/
+ * when neither exists there, so the same order is used here.
+ * @param directory The directory of the Next.js app
+ * @returns A promise that resolves to the routers found, App Router first
+ */
+export async function detectRouters(directory: string): Promise<NextRouterInfo[]> {
+  const rootHasRouter = await fs.pathExists(path.join(directory, 'app'))
+    || await fs.pathExists(path.join(directory, 'pages'));
+  const baseDir = rootHasRouter ? directory : path.join(directory, 'src');
+  const routers: NextRouterInfo[] = [];
+
+  for (const router of NEXT_ROUTERS) {
+    const routerDir = path.join(baseDir, router);
+    if (await fs.pathExists(routerDir)) {
+      routers.push({ router, directory: routerDir });
+    }
+  }
+
+  return routers;
+}
+
+/**
+ * Gets the extension of source files in a project
+ * @param layout The project layout
+ * @param jsx Whether the file contains JSX
+ * @returns The extension, including the dot
+ */
+export function getSourceExtension(layout: ProjectLayout, jsx = false): string {
+  if (layout.typescript) {
+    return jsx ? '.tsx' : '.ts';
+  }
+
+  return jsx ? '.jsx' : '.js';
+}
+
+/**
+ * Gets the specifier to import a module with, preferring the project's aliases over relative paths
+ * @param layout The project layout
+ * @param fromFile The absolute path of the importing file
+ * @param target The absolute path of the imported module, without extension
+ * @returns The import specifier
+ */
+export function getImportPath(layout: ProjectLayout, fromFile: string, target: string): string {
+  for (const alias of layout.aliases) {
+    const specifier = matchAlias(alias, target);
+    if (specifier !== null) {
+      return specifier;
+    }
+  }
+
+  const relativePath = path.relative(path.dirname(fromFile), target).split(path.sep).join('/');
+  return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+}
+
+/**
+ * Maps a module path back through an alias
+ * @param alias The alias to try
+ * @param target The absolute path of the module
+ * @returns The aliased specifier, or null if the alias does not cover the module
+ */
+function matchAlias(alias: ImportAlias, target: string): string | null {
+  const [patternPrefix, patternSuffix = ''] = alias.pattern.split('*');
+  const isWildcard = alias.pattern.includes('*');
+
+  for (const aliasTarget of alias.targets) {
+    if (!isWildcard) {
+      if (path.resolve(aliasTarget) === target) {
+        return alias.pattern;
+      }
+      continue;
+    }
+
+    const [targetPrefix, targetSuffix = ''] = aliasTarget.split('*');
+    if (targetSuffix !== '' || !target.startsWith(targetPrefix)) {
+      continue;
+    }
+
+    const rest = target.slice(targetPrefix.length).split(path.sep).join('/');
+    if (rest !== '' && !rest.startsWith('../')) {
+      return `${patternPrefix}${rest}${patternSuffix}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads baseUrl and paths from a tsconfig.json or jsconfig.json, following relative extends
+ * @param configFile The absolute path of the config file
+ * @param depth How many configs have been followed so far
+ * @returns A promise that resolves to the options, with paths resolved to absolute directories
+ */
+async function readResolutionOptions(configFile: string, depth: number): Promise<ResolutionOptions> {
+  let config: any;
+  try {
+    config = parseJsonWithComments(await fs.readFile(configFile, 'utf8'));
+  } catch (error) {
+    console.warn(`Could not read ${path.basename(configFile)}, using relative imports: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+
+  let options: ResolutionOptions = {};
+
+  // Only relative extends can be followed without resolving packages
+  const parents = Array.isArray(config.extends) ? config.extends : [config.extends];
+  for (const parent of parents) {
+    if (typeof parent === 'string' && parent.startsWith('.') && depth < 5) {
+      const parentFile = path.resolve(path.dirname(configFile), parent.endsWith('.json') ? parent : `${parent}.json`);
+      if (await fs.pathExists(parentFile)) {
+        options = { ...options, ...await readResolutionOptions(parentFile, depth + 1) };
+      }
+    }
+  }
+
+  const compilerOptions = config.compilerOptions || {};
+  const configDir = path.dirname(configFile);
+
+  if (typeof compilerOptions.baseUrl === 'string') {
+    options.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+    options.pathsBase = options.baseUrl;
+  }
+
+  if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+    options.paths = compilerOptions.paths;
+    options.pathsBase = options.baseUrl || configDir;
+  }
+
+  return options;
+}
+
+/**
+ * Parses JSON that may contain comments and trailing commas, as tsconfig.json files do
+ * @param text The text to parse
+ * @returns The parsed value
+ */
+function parseJsonWithComments(text: string): any {
+  let output = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += text[++i] || '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i < 0) {
+        break;
+      }
+      i++;
+    } else {
+      output += char;
+    }
+  }
+
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
@@ -1,4 +1,6 @@
 import chalk from 'chalk';
+import { ApiAuth, ApiDescription } from './api-description';
+import { GraphQLDescription } from './graphql';
 
 // Import stagehand dynamically to avoid type errors
 let stagehand: typeof import('stagehand') | null = null;
@@ -38,6 +40,9 @@ export interface ToolAnalysisResult {
   pageStructure: ObservationResult;
   codeExamples?: CodeExample[];
   dependencies?: string[];
+  api?: ApiDescription;
+  graphql?: GraphQLDescription;
+  auth?: ApiAuth;
   timestamp: string;
 }
 
@@ -0,0 +1,192 @@
+import * as fs from 'fs-extra';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import { FilePlan, getPlannedFileStatus } from './file-plan';
+
+/**
+ * Interface for a file the transaction may need to restore
+ */
+interface BackupEntry {
+  path: string;
+  backupPath: string | null;
+}
+
+/**
+ * Writes a plan through a staging area and restores the project if anything fails
+ */
+export class FileTransaction {
+  readonly directory: string;
+  private tempDir: string | null = null;
+  private staged = new Map<string, string>();
+  private backups = new Map<string, BackupEntry>();
+  private createdDirs: string[] = [];
+  private interrupted = false;
+  private finished = false;
+  private onInterrupt = () => {
+    this.interrupted = true;
+    console.log(chalk.yellow('\nInterrupted, rolling back...'));
+  };
+
+  /**
+   * Creates a new FileTransaction instance
+   * @param directory The directory of the Next.js app
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Starts the transaction and listens for Ctrl-C so it can be rolled back
+   */
+  async begin(): Promise<void> {
+    this.tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs-integrator-'));
+    process.on('SIGINT', this.onInterrupt);
+  }
+
+  /**
+   * Writes every changed file of a plan into the staging area without touching the project
+   * @param plan The plan to stage
+   */
+  async stage(plan: FilePlan): Promise<void> {
+    const stagingDir = path.join(this.getTempDir(), 'staged');
+
+    for (const file of plan.getFiles()) {
+      if (getPlannedFileStatus(file) === 'unchanged') {
+        continue;
+      }
+
+      // Files of a shared workspace package may be outside the project, so number them instead
+      const stagedPath = path.join(stagingDir, String(this.staged.size), path.basename(file.path));
+      await fs.outputFile(stagedPath, file.content);
+      this.staged.set(file.path, stagedPath);
+    }
+
+    this.throwIfInterrupted();
+  }
+
+  /**
+   * Saves a copy of a file so it can be restored on rollback
+   * @param filePath The absolute path of the file
+   */
+  async backup(filePath: string): Promise<void> {
+    const resolved = path.resolve(filePath);
+    if (this.backups.has(resolved)) {
+      return;
+    }
+
+    let backupPath: string | null = null;
+    if (await fs.pathExists(resolved)) {
+      backupPath = path.join(this.getTempDir(), 'backup', String(this.backups.size), path.basename(resolved));
+      await fs.copy(resolved, backupPath);
+    }
+
+    this.backups.set(resolved, { path: resolved, backupPath });
+  }
+
+  /**
+   * Moves the staged files into the project, backing up anything they replace
+   */
+  async commit(): Promise<void> {
+    for (const [target, stagedPath] of this.staged) {
+      this.throwIfInterrupted();
+
+      await this.backup(target);
+      await this.ensureDir(path.dirname(target));
+      await fs.copy(stagedPath, target);
+    }
+
+    this.throwIfInterrupted();
+  }
+
+  /**
+   * Throws if the user pressed Ctrl-C since the transaction began
+   */
+  throwIfInterrupted(): void {
+    if (this.interrupted) {
+      throw new Error('Interrupted by user');
+    }
+  }
+
+  /**
+   * Restores every backed up file, deletes files the transaction created and cleans up
+   */
+  async rollback(): Promise<void> {
+    if (this.finished) {
+      return;
+    }
+
+    console.log(chalk.yellow('Rolling back changes...'));
+
+    for (const entry of Array.from(this.backups.values()).reverse()) {
+      try {
+        if (entry.backupPath) {
+          await fs.copy(entry.backupPath, entry.path, { overwrite: true });
+        } else {
+          await fs.remove(entry.path);
+        }
+      } catch (error) {
+        console.error(chalk.red(`Could not restore ${path.relative(this.directory, entry.path)}:`), error);
+      }
+    }
+
+    // Remove directories the transaction created, deepest first, if nothing else was put in them
+    for (const dir of [...this.createdDirs].reverse()) {
+      if (await fs.pathExists(dir) && (await fs.readdir(dir)).length === 0) {
+        await fs.remove(dir);
+      }
+    }
+
+    console.log(chalk.yellow('✓ Project restored to its previous state'));
+    await this.cleanup();
+  }
+
+  /**
+   * Completes the transaction and removes the staging area
+   */
+  async finish(): Promise<void> {
+    await this.cleanup();
+  }
+
+  /**
+   * Creates a directory, remembering every level the transaction created
+   * @param dir The directory to create
+   */
+  private async ensureDir(dir: string): Promise<void> {
+    const missing: string[] = [];
+    let current = dir;
+
+    while (!await fs.pathExists(current)) {
+      missing.unshift(current);
+      current = path.dirname(current);
+    }
+
+    await fs.ensureDir(dir);
+    this.createdDirs.push(...missing);
+  }
+
+  /**
+   * Gets the temporary directory of the transaction
+   * @returns The temporary directory
+   */
+  private getTempDir(): string {
+    if (!this.tempDir) {
+      throw new Error('Transaction has not begun. Call begin() first.');
+    }
+
+    return this.tempDir;
+  }
+
+  /**
+   * Removes the temporary directory and stops listening for Ctrl-C
+   */
+  private async cleanup(): Promise<void> {
+    this.finished = true;
+    process.removeListener('SIGINT', this.onInterrupt);
+
+    if (this.tempDir) {
+      await fs.remove(this.tempDir);
+      this.tempDir = null;
+    }
+  }
+}
@@ -0,0 +1,329 @@
+import * as fs from 'fs-extra';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { describeProject, detectNextProject, NextProjectProfile, readPackageJson } from './nextjs-detector';
+
+/**
+ * Directories that never contain workspace packages
+ */
+const IGNORED_DIRS = new Set(['node_modules', 'dist', 'build', 'out']);
+
+/**
+ * How many directories deep ** patterns look for workspace packages
+ */
+const MAX_SEARCH_DEPTH = 6;
+
+/**
+ * Interface for a Next.js application in a workspace
+ */
+export interface WorkspaceApp {
+  name: string;
+  directory: string;
+  profile: NextProjectProfile;
+}
+
+/**
+ * Finds the root of the workspace a directory belongs to
+ * @param directory The directory to start from
+ * @returns A promise that resolves to the workspace root, or null if the directory is not in a workspace
+ */
+export async function findWorkspaceRoot(directory: string): Promise<string | null> {
+  let current = path.resolve(directory);
+
+  while (true) {
+    if ((await readWorkspacePatterns(current)).length > 0) {
+      return current;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Reads the package globs of a workspace from package.json workspaces and pnpm-workspace.yaml
+ * @param root The directory of the workspace root
+ * @returns A promise that resolves to the globs, negated globs starting with !
+ */
+export async function readWorkspacePatterns(root: string): Promise<string[]> {
+  const patterns: string[] = [];
+
+  try {
+    // npm and Yarn accept an array, Yarn classic also { packages: [...] }
+    const packageJson = await readPackageJson(root);
+    const workspaces = Array.isArray(packageJson.workspaces)
+      ? packageJson.workspaces
+      : packageJson.workspaces?.packages;
+
+    if (Array.isArray(workspaces)) {
+      patterns.push(...workspaces.filter((pattern: unknown): pattern is string => typeof pattern === 'string'));
+    }
+  } catch (error) {
+    console.warn(chalk.yellow(`Ignoring the workspaces of ${root}: ${error instanceof Error ? error.message : String(error)}`));
+  }
+
+  const pnpmWorkspaceFile = path.join(root, 'pnpm-workspace.yaml');
+  if (await fs.pathExists(pnpmWorkspaceFile)) {
+    patterns.push(...parsePnpmWorkspace(await fs.readFile(pnpmWorkspaceFile, 'utf8')));
+  }
+
+  return patterns;
+}
+
+/**
+ * Finds the packages of a workspace
+ * @param root The directory of the workspace root
+ * @returns A promise that resolves to the absolute directories of the packages
+ */
+export async function findWorkspacePackages(root: string): Promise<string[]> {
+  const patterns = await readWorkspacePatterns(root);
+  const maxDepth = patterns.some(pattern => pattern.includes('**'))
+    ? MAX_SEARCH_DEPTH
+    : Math.max(0, ...patterns.map(pattern => normalizePattern(pattern).split('/').length));
+  const packages: string[] = [];
+
+  const search = async (directory: string, depth: number): Promise<void> => {
+    if (depth > maxDepth) {
+      return;
+    }
+
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || IGNORED_DIRS.has(entry.name)) {
+        continue;
+      }
+
+      const packageDir = path.join(directory, entry.name);
+      if (matchesWorkspacePatterns(patterns, path.relative(root, packageDir)) && await fs.pathExists(path.join(packageDir, 'package.json'))) {
+        packages.push(packageDir);
+      }
+
+      await search(packageDir, depth + 1);
+    }
+  };
+
+  await search(root, 1);
+  return packages.sort();
+}
+
+/**
+ * Checks whether a directory is covered by the package globs of its workspace
+ * @param root The directory of the workspace root
+ * @param directory The absolute path of the directory
+ * @returns A promise that resolves to true if the directory is a workspace package location
+ */
+export async function isWorkspacePackageDir(root: string, directory: string): Promise<boolean> {
+  return matchesWorkspacePatterns(await readWorkspacePatterns(root), path.relative(root, directory));
+}
+
+/**
+ * Finds the Next.js applications of a workspace
+ * @param root The directory of the workspace root
+ * @returns A promise that resolves to the applications, sorted by directory
+ */
+export async function findWorkspaceApps(root: string): Promise<WorkspaceApp[]> {
+  const apps: WorkspaceApp[] = [];
+
+  for (const directory of await findWorkspacePackages(root)) {
+    const profile = await detectNextProject(directory);
+    if (profile) {
+      const packageJson = await readPackageJson(directory);
+      const name = typeof packageJson.name === 'string' ? packageJson.name : path.basename(directory);
+      apps.push({ name, directory, profile });
+    }
+  }
+
+  return apps;
+}
+
+/**
+ * Selects the Next.js application a command works on
+ *
+ * A directory that is a Next.js app is used as it is. At a workspace root, the app is chosen
+ * by --app, or found when there is only one, or picked from a prompt.
+ * @param directory The directory the command runs in
+ * @param requested The package name or path passed with --app
+ * @returns A promise that resolves to the directory of the app, or the directory itself outside a workspace
+ */
+export async function selectWorkspaceApp(directory: string, requested?: string): Promise<string> {
+  if (requested) {
+    return findRequestedApp(directory, requested);
+  }
+
+  if (await detectNextProject(directory)) {
+    return directory;
+  }
+
+  const root = await findWorkspaceRoot(directory);
+  const apps = root ? await findWorkspaceApps(root) : [];
+
+  if (!root || apps.length === 0) {
+    return directory;
+  }
+
+  if (apps.length === 1) {
+    console.log(chalk.blue(`Using ${apps[0].name} in ${path.relative(directory, apps[0].directory) || '.'}, the only Next.js app in this workspace`));
+    return apps[0].directory;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error(`This workspace has ${apps.length} Next.js apps: ${apps.map(app => app.name).join(', ')}. Pass --app <name|path> to choose one.`);
+  }
+
+  return promptWorkspaceApp(root, apps);
+}
+
+/**
+ * Finds the app passed with --app by path, package name or directory name
+ * @param directory The directory the command runs in
+ * @param requested The package name or path passed with --app
+ * @returns A promise that resolves to the directory of the app
+ */
+async function findRequestedApp(directory: string, requested: string): Promise<string> {
+  const requestedDir = path.resolve(directory, requested);
+  if (await fs.pathExists(path.join(requestedDir, 'package.json'))) {
+    return requestedDir;
+  }
+
+  const root = await findWorkspaceRoot(directory);
+  const apps = root ? await findWorkspaceApps(root) : [];
+  const app = apps.find(candidate =>
+    candidate.name === requested || path.basename(candidate.directory) === requested
+  );
+
+  if (app) {
+    return app.directory;
+  }
+
+  const available = apps.length > 0 ? ` Apps in this workspace: ${apps.map(candidate => candidate.name).join(', ')}.` : '';
+  throw new Error(`No app named "${requested}" was found.${available}`);
+}
+
+/**
+ * Asks which workspace app to use
+ * @param root The directory of the workspace root
+ * @param apps The apps to choose from
+ * @returns A promise that resolves to the directory of the chosen app
+ */
+async function promptWorkspaceApp(root: string, apps: WorkspaceApp[]): Promise<string> {
+  const { directory } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'directory',
+      message: 'Which Next.js app should be used?',
+      choices: apps.map(app => ({
+        name: `${app.name} (${path.relative(root, app.directory)}, ${describeProject(app.profile)})`,
+        value: app.directory,
+      })),
+    },
+  ]);
+
+  return directory;
+}
+
+/**
+ * Checks a workspace-relative directory against package globs
+ * @param patterns The package globs, negated globs starting with !
+ * @param relativePath The directory relative to the workspace root
+ * @returns True if an included glob matches and no negated glob does
+ */
+function matchesWorkspacePatterns(patterns: string[], relativePath: string): boolean {
+  const candidate = relativePath.split(path.sep).join('/');
+  const included = patterns.filter(pattern => !pattern.startsWith('!'));
+  const excluded = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1));
+
+  return included.some(pattern => globToRegExp(pattern).test(candidate))
+    && !excluded.some(pattern => globToRegExp(pattern).test(candidate));
+}
+
+/**
+ * Converts a workspace glob into a regular expression over relative POSIX paths
+ * @param pattern The glob, supporting *, ** and ?
+ * @returns The regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const normalized = normalizePattern(pattern);
+  let source = '';
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (char === '*' && normalized[i + 1] === '*') {
+      // **/ matches any number of directories, a trailing ** anything below
+      if (normalized[i + 2] === '/') {
+        source += '(?:[^/]+/)*';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Strips the leading ./ and trailing slashes workspace globs may be written with
+ * @param pattern The glob
+ * @returns The normalized glob
+ */
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Reads the packages list of a pnpm-workspace.yaml file
+ *
+ * Only the packages key is needed, so this reads its block or flow sequence rather than
+ * parsing YAML in full.
+ * @param text The content of the file
+ * @returns The package globs
+ */
+function parsePnpmWorkspace(text: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trimEnd();
+    if (line.trim() === '') {
+      continue;
+    }
+
+    const item = line.match(/^\s*-\s+(.+)$/);
+    if (inPackages && item) {
+      patterns.push(unquote(item[1]));
+      continue;
+    }
+
+    if (!/^\s/.test(line)) {
+      const flow = line.match(/^packages\s*:\s*\[(.*)\]$/);
+      if (flow) {
+        patterns.push(...flow[1].split(',').map(unquote).filter(Boolean));
+      }
+      inPackages = !flow && /^packages\s*:\s*$/.test(line);
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Removes the quotes around a YAML scalar
+ * @param value The scalar
+ * @returns The unquoted value
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(['"]).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}